@@ -1,73 +1,503 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GameCanvas } from './components/GameCanvas';
-import { GameState, CharacterType, LeaderboardEntry } from './types';
+import { GameState, GameMode, PartyMode, CharacterType, LeaderboardEntry } from './types';
 import { generateGameOverMessage } from './services/geminiService';
-import { saveScoreToFirestore, getLeaderboardFromFirestore, checkOnlineStatus } from './services/firebase';
-import { COLORS, SCORE_TIERS, CHARACTER_SPECS } from './constants';
+import { getLeaderboardBackend, LeaderboardPeriod, AroundMeResult } from './services/leaderboardBackend';
+import {
+  ConnectionStatus,
+  getConnectionStatus,
+  subscribeConnectionStatus,
+  reportBackendFailure
+} from './services/connectionStatus';
+import {
+  createRunId,
+  saveLocalRun,
+  updateLocalRun,
+  getLocalLeaderboard,
+  getLocalDailyRuns,
+  getPersonalBest,
+  getPersonalBestRun,
+  getCharacterStats,
+  mergeLeaderboards,
+  CharacterStats
+} from './services/localLeaderboard';
+import { startOutbox, enqueueSubmission } from './services/scoreOutbox';
+import {
+  DailyMode,
+  DailyRun,
+  getDailyKey,
+  getDailySeed,
+  hasUsedRankedAttempt,
+  markRankedAttemptUsed
+} from './services/dailyTower';
+import {
+  PlayerProfile,
+  AVATAR_COLORS,
+  loadProfile,
+  updateProfile
+} from './services/playerProfile';
+import { COLORS, SCORE_TIERS, CHARACTER_SPECS, MAX_NAME_LENGTH, SPRINT_TARGET_HEIGHT } from './constants';
+import { Replay, serializeReplay, parseReplay } from './engine/replay';
+import { toDisplayScore } from './engine/verification';
+import {
+  ResultUnit,
+  GAME_MODE_LIST,
+  getGameMode,
+  formatResult,
+  formatTime,
+  getClockTime,
+  toMeters
+} from './engine/gameModes';
+import { POWER_UP_LIST } from './engine/powerUps';
+import { PartyResult, PARTY_MODE_LIST, getPartyMode } from './engine/party';
+import { validateName, DEFAULT_PLAYER_NAME } from './engine/nameModeration';
+import {
+  RaceRoomClient,
+  RaceRoomRequest,
+  RaceRoomSnapshot,
+  RaceStanding,
+  connectRaceRoom,
+  getRaceRelayUrl
+} from './services/raceRoom';
+import { isRoomCode, normalizeRoomCode } from './services/raceProtocol';
 
 const MAX_LEADERBOARD_ENTRIES = 20;
+// Widest first: the board opens on the biggest one a new record made it into
+const LEADERBOARD_PERIODS: { id: LeaderboardPeriod; label: string; title: string }[] = [
+  { id: 'all', label: '전체', title: 'All-Time' },
+  { id: 'monthly', label: '이번 달', title: "This Month's" },
+  { id: 'weekly', label: '이번 주', title: "This Week's" },
+  { id: 'daily', label: '오늘', title: "Today's" },
+];
+
+const CHARACTER_FILTERS: { id: CharacterType | null; label: string }[] = [
+  { id: null, label: '전체' },
+  { id: CharacterType.YELLOW, label: '⚡ 스파키' },
+  { id: CharacterType.BLUE, label: '💧 유니' },
+];
+
+// Two-player seats: Sparky is always 1P, Uni 2P
+const PARTY_PLAYER_LABELS: Record<CharacterType, string> = {
+  [CharacterType.YELLOW]: '1P 스파키',
+  [CharacterType.BLUE]: '2P 유니',
+};
+
+// Global board for a period (and optionally one character / mode), or null when offline or the backend fails
+const loadGlobalBoard = async (
+  period: LeaderboardPeriod,
+  character?: CharacterType,
+  mode: GameMode = GameMode.ENDLESS
+): Promise<LeaderboardEntry[] | null> => {
+  // Connection status is tracked by its own subscription, so no probe here
+  if (getConnectionStatus() !== 'online') return null;
+  try {
+    const backend = await getLeaderboardBackend();
+    return await backend.getByPeriod(period, MAX_LEADERBOARD_ENTRIES, character, mode);
+  } catch (error) {
+    console.error("Global leaderboard load failed:", error);
+    reportBackendFailure();
+    return null;
+  }
+};
+
+// Today's Daily Tower board, or null when offline or the backend fails
+const loadDailyBoard = async (day: string): Promise<LeaderboardEntry[] | null> => {
+  if (getConnectionStatus() !== 'online') return null;
+  try {
+    const backend = await getLeaderboardBackend();
+    return await backend.getDaily(day, MAX_LEADERBOARD_ENTRIES);
+  } catch (error) {
+    console.error("Daily leaderboard load failed:", error);
+    reportBackendFailure();
+    return null;
+  }
+};
+
+const AROUND_ME_RANGE = 2; // Entries shown above and below the player's score
+
+// Where a score would place on the global board, or null when offline
+const loadAroundMe = async (score: number): Promise<AroundMeResult | null> => {
+  if (getConnectionStatus() !== 'online') return null;
+  try {
+    const backend = await getLeaderboardBackend();
+    return await backend.getAroundMe(score, AROUND_ME_RANGE);
+  } catch (error) {
+    console.error("Around-me load failed:", error);
+    reportBackendFailure();
+    return null;
+  }
+};
+
+// One board per game mode, plus today's Daily Tower (always an endless run)
+type BoardView = GameMode | 'daily';
+
+const BOARD_VIEWS: { id: BoardView; label: string }[] = [
+  ...GAME_MODE_LIST.map(m => ({ id: m.mode, label: `${m.icon} ${m.label}` })),
+  { id: 'daily', label: '🗓 데일리 타워' },
+];
+
+const RESULT_LABELS: Record<ResultUnit, string> = {
+  points: 'Score',
+  meters: 'Height',
+  time: 'Time',
+};
+
+// Ghost race rival: a recorded run raced on its own seed and mode
+interface GhostRun {
+  replay: Replay;
+  name: string;
+  result: number; // The run's ranked value in its mode
+}
+
+// null when the entry has no replay this version can play back
+const toGhostRun = (entry: LeaderboardEntry): GhostRun | null => {
+  const replay = entry.replay ? parseReplay(entry.replay) : null;
+  return replay && { replay, name: entry.name, result: entry.score };
+};
+
+// Live race ranking cell: the finished result, or how far they've got so far
+const formatStanding = (mode: GameMode, standing: RaceStanding) => {
+  if (standing.finish) return standing.finish.result === null ? 'DNF' : `${formatResult(mode, standing.finish.result)} 🏁`;
+  return mode === GameMode.ENDLESS ? String(standing.score) : `${toMeters(standing.height)}m`;
+};
+
+// True when `value` ranks ahead of `other` on the mode's board
+const beats = (mode: GameMode, value: number, other: number) =>
+  getGameMode(mode).ascending ? value < other : value > other;
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  checking: 'CONNECTING...',
+  online: 'ONLINE',
+  offline: 'OFFLINE MODE',
+  unreachable: 'SERVER UNAVAILABLE',
+};
+const REPLAY_HASH_PREFIX = '#replay=';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
   const [score, setScore] = useState(0);
   const [highScore, setHighScore] = useState(0);
-  const [character, setCharacter] = useState<CharacterType>(CharacterType.YELLOW);
+  const [profile, setProfile] = useState<PlayerProfile>(() => loadProfile());
+  const [character, setCharacter] = useState<CharacterType>(profile.preferredCharacter);
   const [gameOverMessage, setGameOverMessage] = useState<string>('');
   const [loadingMsg, setLoadingMsg] = useState(false);
   const [resetTrigger, setResetTrigger] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
+  // Daily Tower run in progress (null = regular tower with a fresh seed)
+  const [daily, setDaily] = useState<DailyRun | null>(null);
+  // Mode picked on the start screen; the Daily Tower and two-player runs are always endless
+  const [gameMode, setGameMode] = useState<GameMode>(GameMode.ENDLESS);
+  // Local two-player on one screen (null = single player); never recorded or ranked
+  const [party, setParty] = useState<PartyMode | null>(null);
+  // Live race room (services/raceRoom.ts); raceRun is the race being played, on the room's seed and mode
+  const [raceClient, setRaceClient] = useState<RaceRoomClient | null>(null);
+  const [raceSnapshot, setRaceSnapshot] = useState<RaceRoomSnapshot | null>(null);
+  const [raceRun, setRaceRun] = useState<{ round: number; seed: number; mode: GameMode } | null>(null);
+  const [roomCodeInput, setRoomCodeInput] = useState('');
+  const raceRoom = raceSnapshot?.room ?? null;
+  const activeParty = daily || raceRun ? null : party;
+  // Ghost race picked on the start screen or from a leaderboard row; solo runs only, never ranked
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const activeGhost = daily || activeParty || raceRun ? null : ghost;
+  const [ghostLead, setGhostLead] = useState(0); // Pixels ahead of the ghost (negative = behind)
+  const [bestGhost, setBestGhost] = useState<GhostRun | null>(null); // My best run in the selected mode
+  const activeMode = raceRun?.mode ?? (daily || activeParty ? GameMode.ENDLESS : activeGhost?.replay.mode ?? gameMode);
+  const [partyResult, setPartyResult] = useState<PartyResult | null>(null); // Live two-player scores
+  const [progress, setProgress] = useState({ tick: 0, height: 0 }); // HUD clock and height
+  const [runResult, setRunResult] = useState<number | null>(null); // Last run's ranked value
   
   // Leaderboard State
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [boardView, setBoardView] = useState<BoardView>(GameMode.ENDLESS);
+  const boardViewRef = useRef(boardView);
   const [isNewRecord, setIsNewRecord] = useState(false);
-  const [playerName, setPlayerName] = useState('');
+  const [recordPeriods, setRecordPeriods] = useState<LeaderboardPeriod[]>([]);
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>('all');
+  const leaderboardPeriodRef = useRef(leaderboardPeriod);
+  const [characterFilter, setCharacterFilter] = useState<CharacterType | null>(null);
+  const characterFilterRef = useRef(characterFilter);
+  const [aroundMe, setAroundMe] = useState<AroundMeResult | null>(null);
+  const [characterStats, setCharacterStats] = useState<Record<CharacterType, CharacterStats> | null>(null);
+  const [playerName, setPlayerName] = useState(profile.name);
+  const [nameError, setNameError] = useState('');
   const [isLoadingLeaderboard, setIsLoadingLeaderboard] = useState(false);
-  const [isOnline, setIsOnline] = useState(false);
+  const [isOnline, setIsOnline] = useState(false); // Global board loaded
+  const [connection, setConnection] = useState<ConnectionStatus>(getConnectionStatus());
 
   // Help Modal State
   const [showHelp, setShowHelp] = useState(false);
 
+  // Profile Modal State
+  const [showProfile, setShowProfile] = useState(false);
+  const [profileError, setProfileError] = useState('');
+  const [isLinkingAccount, setIsLinkingAccount] = useState(false);
+
+  // Replay State
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [lastRunId, setLastRunId] = useState<string | null>(null);
+  const [watchingReplay, setWatchingReplay] = useState<Replay | null>(null);
+  const [replayReturnState, setReplayReturnState] = useState<GameState>(GameState.START);
+  const [replayCopied, setReplayCopied] = useState(false);
+
   // Load Leaderboard function
-  const fetchLeaderboard = useCallback(async () => {
+  // Shows the global board merged with this device's runs, or only the local
+  // board when offline. Returns the global list (null when it couldn't be loaded).
+  const fetchLeaderboard = useCallback(async (): Promise<LeaderboardEntry[] | null> => {
     setIsLoadingLeaderboard(true);
-    // Check connection status
-    const online = await checkOnlineStatus();
-    setIsOnline(online);
-    
-    const data = await getLeaderboardFromFirestore(MAX_LEADERBOARD_ENTRIES);
-    setLeaderboard(data);
-    if (data.length > 0) {
-      setHighScore(data[0].score);
-    }
+    const period = leaderboardPeriodRef.current;
+    const filter = characterFilterRef.current ?? undefined;
+    const day = getDailyKey();
+    const view = boardViewRef.current;
+    const isDailyView = view === 'daily';
+    const mode = isDailyView ? GameMode.ENDLESS : view;
+    const global = isDailyView ? await loadDailyBoard(day) : await loadGlobalBoard(period, filter, mode);
+    const local = isDailyView
+      ? await getLocalDailyRuns(day)
+      : await getLocalLeaderboard(MAX_LEADERBOARD_ENTRIES, period, filter, mode);
+
+    setIsOnline(global !== null);
+    setLeaderboard(global ? mergeLeaderboards(global, local, MAX_LEADERBOARD_ENTRIES, mode) : local);
+    setHighScore(await getPersonalBest());
+    setCharacterStats(await getCharacterStats());
     setIsLoadingLeaderboard(false);
+    return global;
   }, []);
 
-  // Initial Load
+  // Initial Load, then reload whenever the connection comes or goes
+  useEffect(() => subscribeConnectionStatus((status) => {
+    setConnection(status);
+    fetchLeaderboard();
+  }), [fetchLeaderboard]);
+
+  // Retry queued submissions (now and whenever the browser comes back online)
+  useEffect(() => startOutbox(() => { fetchLeaderboard(); }), [fetchLeaderboard]);
+
+  // Switching boards, period tabs or the character filter
   useEffect(() => {
+    if (
+      boardViewRef.current === boardView &&
+      leaderboardPeriodRef.current === leaderboardPeriod &&
+      characterFilterRef.current === characterFilter
+    ) return;
+    boardViewRef.current = boardView;
+    leaderboardPeriodRef.current = leaderboardPeriod;
+    characterFilterRef.current = characterFilter;
     fetchLeaderboard();
-  }, [fetchLeaderboard]);
+  }, [boardView, leaderboardPeriod, characterFilter, fetchLeaderboard]);
+
+  // Pause / Resume
+  const pauseGame = useCallback(() => {
+    setGameState(prev => prev === GameState.PLAYING ? GameState.PAUSED : prev);
+  }, []);
+
+  const resumeGame = useCallback(() => {
+    setGameState(prev => prev === GameState.PAUSED ? GameState.PLAYING : prev);
+  }, []);
+
+  // Escape / P toggles pause; leaving the tab or window pauses automatically
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape' && e.code !== 'KeyP') return;
+      setGameState(prev => {
+        if (prev === GameState.PLAYING) return GameState.PAUSED;
+        if (prev === GameState.PAUSED) return GameState.PLAYING;
+        return prev;
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', pauseGame);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [pauseGame]);
+
+  // Open a shared replay link (#replay=...)
+  useEffect(() => {
+    if (!window.location.hash.startsWith(REPLAY_HASH_PREFIX)) return;
+    const shared = parseReplay(decodeURIComponent(window.location.hash.slice(REPLAY_HASH_PREFIX.length)));
+    if (shared) {
+      setWatchingReplay(shared);
+      setReplayReturnState(GameState.START);
+      setGameState(GameState.REPLAY);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!raceClient) return;
+    setRaceSnapshot(raceClient.getSnapshot());
+    const unsubscribe = raceClient.subscribe(setRaceSnapshot);
+    return () => {
+      unsubscribe();
+      raceClient.close();
+    };
+  }, [raceClient]);
+
+  // Offer my best run in the selected mode as a ghost on the start screen
+  useEffect(() => {
+    if (gameState !== GameState.START) return;
+    getPersonalBestRun(gameMode).then(run => setBestGhost(run && toGhostRun({ ...run, name: 'MY BEST' })));
+  }, [gameState, gameMode]);
 
   const handleScoreUpdate = useCallback((newScore: number) => {
-    const actualScore = Math.floor(newScore / 10);
+    const actualScore = toDisplayScore(newScore);
     setScore(actualScore);
   }, []);
 
-  const handleGameOver = useCallback(async () => {
+  const handleProgress = useCallback((tick: number, height: number) => {
+    setProgress({ tick, height });
+  }, []);
+
+  // Daily Tower: practice runs aren't kept; the ranked run always goes to the name form
+  // and then onto today's daily board
+  const handleDailyGameOver = useCallback(async (run: DailyRun, replay: Replay, height: number, result: number) => {
+    setRecordPeriods([]);
+    boardViewRef.current = 'daily';
+    setBoardView('daily');
+
+    if (run.mode === 'practice') {
+      setLastRunId(null);
+      setIsNewRecord(false);
+      setGameOverMessage('연습 기록은 랭킹에 올라가지 않아요.');
+      await fetchLeaderboard();
+      return;
+    }
+
+    const runId = createRunId();
+    setLastRunId(runId);
+    await saveLocalRun({
+      runId,
+      name: DEFAULT_PLAYER_NAME,
+      score: result,
+      character: replay.character,
+      timestamp: Math.floor(Date.now() / 1000),
+      replay: serializeReplay(replay),
+      height,
+      playerId: profile.playerId,
+      avatarColor: profile.avatarColor,
+      daily: run.day,
+    });
+    await fetchLeaderboard();
+    setGameOverMessage('오늘의 랭크 도전 완료! 내일 새 타워가 열려요.');
+    setIsNewRecord(true);
+    setShowLeaderboard(false);
+  }, [profile, fetchLeaderboard]);
+
+  // Two-player runs skip the leaderboard entirely: just announce the winner or the team score
+  const handlePartyOver = useCallback((result: PartyResult) => {
     setGameState(GameState.GAME_OVER);
+    setPartyResult(result);
+    setLastReplay(null);
+    setLastRunId(null);
+    setAroundMe(null);
+    setRecordPeriods([]);
+    setIsNewRecord(false);
+    if (result.party === PartyMode.COOP) {
+      setGameOverMessage(`둘이 함께 ${toMeters(result.height)}m까지 올라갔어요!`);
+    } else if (result.winner) {
+      setGameOverMessage(`${PARTY_PLAYER_LABELS[result.winner]} 승리! 🏆`);
+    } else {
+      setGameOverMessage('무승부! 한 판 더?');
+    }
+  }, []);
+
+  const handleGameOver = useCallback(async (replay: Replay, height: number, result: number | null) => {
+    const mode = replay.mode;
+    setGameState(GameState.GAME_OVER);
+    setLastReplay(replay);
+    setReplayCopied(false);
+    setAroundMe(null);
+    setRunResult(result);
+
+    // The Daily Tower is always Endless, so there's always a score
+    if (daily) {
+      await handleDailyGameOver(daily, replay, height, result ?? 0);
+      return;
+    }
+
+    // Everyone in a race room knows its seed, so races stay off the boards as well
+    if (raceRun) {
+      raceClient?.finish({ result, height, score });
+      setLastRunId(null);
+      setRecordPeriods([]);
+      setIsNewRecord(false);
+      setGameOverMessage('아직 달리는 사람이 있으면 순위가 바뀔 수 있어요.');
+      return;
+    }
+
+    // Ghost races replay a tower that's already known, so they stay off the boards
+    if (activeGhost) {
+      setLastRunId(null);
+      setRecordPeriods([]);
+      setIsNewRecord(false);
+      setGameOverMessage(result !== null && beats(mode, result, activeGhost.result)
+        ? `👻 ${activeGhost.name} 추월 성공! 🏆`
+        : `👻 ${activeGhost.name}에게 졌어요. 다시 도전!`);
+      return;
+    }
+
+    // A Sprint that fell short of the goal has no time to rank
+    if (result === null) {
+      setLastRunId(null);
+      setRecordPeriods([]);
+      setIsNewRecord(false);
+      setGameOverMessage(`${toMeters(height)}m에서 떨어졌어요. 끝까지 올라가야 기록이 남아요!`);
+      await fetchLeaderboard();
+      return;
+    }
+
+    // Global rank (count query) and neighbours, shown whether or not this is a record
+    if (mode === GameMode.ENDLESS) loadAroundMe(result).then(setAroundMe);
+
+    // Check every period's board before this run lands in the local history.
+    // Offline, a new personal best for the period counts as a record.
+    const qualified: LeaderboardPeriod[] = [];
+    for (const { id } of LEADERBOARD_PERIODS) {
+      const global = await loadGlobalBoard(id, undefined, mode);
+      const board = global ?? await getLocalLeaderboard(1, id, undefined, mode);
+      const qualifies = global
+        ? global.length < MAX_LEADERBOARD_ENTRIES || beats(mode, result, global[global.length - 1].score)
+        : board.length === 0 || beats(mode, result, board[0].score);
+      if (result > 0 && qualifies) qualified.push(id);
+    }
+
+    // Every run goes into the local history; the name is filled in if it gets submitted
+    const runId = createRunId();
+    setLastRunId(runId);
+    await saveLocalRun({
+      runId,
+      name: DEFAULT_PLAYER_NAME,
+      score: result,
+      character: replay.character,
+      timestamp: Math.floor(Date.now() / 1000),
+      replay: serializeReplay(replay),
+      height,
+      playerId: profile.playerId,
+      avatarColor: profile.avatarColor,
+      mode,
+    });
     
-    // Refresh leaderboard to check against latest data
+    setRecordPeriods(qualified);
+    if (qualified.length > 0) {
+      // Open the mode's board on the widest period the run made it into
+      boardViewRef.current = mode;
+      setBoardView(mode);
+      leaderboardPeriodRef.current = qualified[0];
+      setLeaderboardPeriod(qualified[0]);
+      characterFilterRef.current = null;
+      setCharacterFilter(null);
+    }
     await fetchLeaderboard();
-    
-    const latestData = await getLeaderboardFromFirestore(MAX_LEADERBOARD_ENTRIES);
-    setLeaderboard(latestData);
-
-    const lowestScore = latestData.length < MAX_LEADERBOARD_ENTRIES 
-      ? 0 
-      : latestData[latestData.length - 1].score;
       
-    if (score > 0 && (latestData.length < MAX_LEADERBOARD_ENTRIES || score > lowestScore)) {
+    if (qualified.length > 0) {
       setIsNewRecord(true);
       setShowLeaderboard(false);
     } else {
@@ -83,53 +513,217 @@ const App: React.FC = () => {
     } else {
         setGameOverMessage("Awesome run! Can you beat it?");
     }
-  }, [score, fetchLeaderboard]);
+  }, [score, profile, daily, raceRun, raceClient, activeGhost, fetchLeaderboard, handleDailyGameOver]);
 
   const submitScore = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Default to "익명" if empty
-    const finalName = playerName.trim() || "익명";
-
-    const newEntry: Omit<LeaderboardEntry, 'timestamp'> = {
-      name: finalName.substring(0, 10), // Limit name length
-      score: score,
-      character: character
-    };
-
+    // Default to "익명" if empty; a typed name becomes the profile name for next time
     setIsLoadingLeaderboard(true);
-    await saveScoreToFirestore(newEntry);
-    await fetchLeaderboard(); // Refresh list after saving
+    let finalName = DEFAULT_PLAYER_NAME;
+    if (playerName.trim()) {
+      // Other players' top names on the board this run goes to can't be copied
+      // (offline: only what's already loaded)
+      const board = daily ? await loadDailyBoard(daily.day) : await loadGlobalBoard('all', undefined, lastReplay?.mode);
+      const top = board ?? leaderboard;
+      const check = validateName(playerName, {
+        protectedNames: top.filter(entry => entry.playerId !== profile.playerId).map(entry => entry.name)
+      });
+      if (!check.ok) {
+        setNameError(check.message);
+        setIsLoadingLeaderboard(false);
+        return;
+      }
+      finalName = check.name;
+      if (finalName !== profile.name) setProfile(updateProfile({ name: finalName }));
+    }
+    setNameError('');
+
+    if (lastRunId) {
+      // Queued with its replay; uploads in the background and retries while offline
+      await enqueueSubmission(lastRunId, finalName);
+    }
+    await fetchLeaderboard(); // Refresh list (the entry shows as pending until it syncs)
     setIsLoadingLeaderboard(false);
 
     setIsNewRecord(false);
     setShowLeaderboard(true);
   };
 
-  const skipScore = () => {
+  // Owner-only delete: the backend checks the Firebase uid (or playerId) again
+  const deleteEntry = async (entry: LeaderboardEntry) => {
+    if (!entry.runId || !window.confirm(`"${entry.name}" (${formatResult(entry.mode, entry.score)}) 기록을 랭킹에서 삭제할까요?`)) return;
+    try {
+      const backend = await getLeaderboardBackend();
+      await backend.remove(entry.runId, profile.playerId, entry.mode);
+      await updateLocalRun(entry.runId, { syncStatus: undefined }); // stays in this device's history
+    } catch (error) {
+      console.error("Failed to delete score:", error);
+      alert('기록을 삭제하지 못했습니다. 본인 기록만 삭제할 수 있습니다.');
+    }
+    fetchLeaderboard();
+  };
+
+  // A ranked daily attempt still goes onto today's board, just under the default name
+  const skipScore = async () => {
+      if (daily?.mode === 'ranked' && lastRunId) {
+        await enqueueSubmission(lastRunId, DEFAULT_PLAYER_NAME);
+        await fetchLeaderboard();
+      }
       setIsNewRecord(false);
       setShowLeaderboard(true);
   };
 
-  const startGame = () => {
+  const watchReplay = (replay: Replay) => {
+    setReplayReturnState(gameState);
+    setWatchingReplay(replay);
+    setGameState(GameState.REPLAY);
+  };
+
+  const exitReplay = () => {
+    setWatchingReplay(null);
+    setGameState(replayReturnState);
+    if (window.location.hash.startsWith(REPLAY_HASH_PREFIX)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  };
+
+  // Pick a recorded run as the rival and go back to the start screen to race it
+  const raceGhost = (run: GhostRun) => {
+    setGhost(run);
+    setGameMode(run.replay.mode);
+    setParty(null);
+    setShowLeaderboard(false);
+    setGameState(GameState.START);
+  };
+
+  const shareReplay = async (replay: Replay) => {
+    const url = `${window.location.origin}${window.location.pathname}${REPLAY_HASH_PREFIX}${serializeReplay(replay)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setReplayCopied(true);
+    } catch (error) {
+      console.error("Replay link copy failed:", error);
+    }
+  };
+
+  const selectCharacter = (type: CharacterType) => {
+    setCharacter(type);
+    setProfile(updateProfile({ preferredCharacter: type }));
+    raceClient?.setCharacter(type);
+  };
+
+  // Quitting a race counts as not finishing it, so the room isn't left waiting
+  const quitToHome = () => {
+    if (raceRun) raceClient?.finish({ result: null, height: progress.height, score });
+    setGameState(GameState.START);
+  };
+
+  // Leaving closes the socket (see the subscription effect); the relay drops us from the room
+  const openRaceRoom = async (request: RaceRoomRequest) => {
+    setRaceRun(null);
+    setRaceClient(connectRaceRoom(await getRaceRelayUrl(), request));
+  };
+
+  const leaveRaceRoom = () => {
+    setRaceClient(null);
+    setRaceSnapshot(null);
+    setRaceRun(null);
+  };
+
+  const changeProfile = (changes: Partial<Omit<PlayerProfile, 'playerId'>>) => {
+    const next = updateProfile(changes);
+    setProfile(next);
+    if (changes.name !== undefined) setPlayerName(next.name);
+  };
+
+  // Firestore writes always sign in anonymously; Google keeps the same uid so
+  // entries stay deletable from other devices
+  const linkAccount = async (provider: 'anonymous' | 'google') => {
+    setProfileError('');
+    setIsLinkingAccount(true);
+    try {
+      const { signInAnonymouslyToFirebase, signInWithGoogle } = await import('./services/firebase');
+      const account = provider === 'google' ? await signInWithGoogle() : await signInAnonymouslyToFirebase();
+      changeProfile({ authUid: account.uid, authProvider: account.provider });
+    } catch (error) {
+      console.error("Sign-in failed:", error);
+      setProfileError('계정 연결에 실패했습니다. (Firebase 설정을 확인하세요)');
+    }
+    setIsLinkingAccount(false);
+  };
+
+  // mode: a Daily Tower run, null for the regular tower, or omitted to go again
+  // in the same mode (after the day's ranked attempt that means practice)
+  const startGame = (mode?: DailyMode | null) => {
+    let next: DailyRun | null = daily && { day: daily.day, mode: 'practice' };
+    if (mode !== undefined) next = mode && { day: getDailyKey(), mode };
+    if (next?.mode === 'ranked') {
+      if (hasUsedRankedAttempt(next.day)) {
+        next = { ...next, mode: 'practice' };
+      } else {
+        markRankedAttemptUsed(next.day); // Used up the moment it starts
+      }
+    }
+    setDaily(next);
+
     setScore(0);
+    setRunResult(null);
+    setPartyResult(null);
+    setGhostLead(0);
+    setNameError('');
     setGameOverMessage('');
     setGameState(GameState.PLAYING);
     setIsNewRecord(false);
     setShowLeaderboard(false);
     setShowHelp(false);
-    setPlayerName('');
+    setPlayerName(profile.name);
     setResetTrigger(prev => prev + 1); // Trigger reset in canvas
   };
 
+  // Everyone in the room starts at once when the host starts a race
+  // (anyone who joined mid-race waits for the next one)
+  useEffect(() => {
+    if (!raceRoom || raceRoom.phase !== 'racing' || raceRun?.round === raceRoom.round) return;
+    if (!raceRoom.members.find(m => m.id === raceSnapshot?.you)?.racing) return;
+    setRaceRun({ round: raceRoom.round, seed: raceRoom.seed, mode: raceRoom.mode });
+    startGame(null);
+  }, [raceRoom]);
+
   return (
     <div className="h-[100dvh] w-full bg-slate-950 flex flex-col items-center overflow-hidden font-sans select-none touch-none">
       
       {/* Top Right Controls (Absolute) */}
       <div className="absolute top-4 right-4 z-50 flex gap-2">
+        {/* Pause Button */}
+        {gameState === GameState.PLAYING && (
+          <button 
+            onClick={pauseGame}
+            className="p-2 bg-slate-800/80 rounded-full text-white hover:bg-slate-700 transition-colors border border-slate-700 w-10 h-10 flex items-center justify-center font-bold"
+            title="Pause (Esc / P)"
+          >
+            ❚❚
+          </button>
+        )}
+
+        {/* Profile Button */}
+        <button 
+          onClick={() => {
+            pauseGame();
+            setShowProfile(true);
+          }}
+          className="p-2 bg-slate-800/80 rounded-full text-white hover:bg-slate-700 transition-colors border border-slate-700 w-10 h-10 flex items-center justify-center"
+          title="Profile"
+        >
+          <span className="w-5 h-5 rounded-full border-2 border-white/80" style={{ backgroundColor: profile.avatarColor }} />
+        </button>
+
         {/* Help Button */}
         <button 
-          onClick={() => setShowHelp(true)}
+          onClick={() => {
+            pauseGame();
+            setShowHelp(true);
+          }}
           className="p-2 bg-slate-800/80 rounded-full text-white hover:bg-slate-700 transition-colors border border-slate-700 w-10 h-10 flex items-center justify-center font-bold"
           title="Game Guide"
         >
@@ -171,24 +765,116 @@ const App: React.FC = () => {
           <GameCanvas 
             gameState={gameState} 
             characterType={character}
+            seed={raceRun?.seed ?? (daily ? getDailySeed(daily.day) : activeGhost?.replay.seed)}
+            mode={activeMode}
+            party={activeParty}
             onScoreUpdate={handleScoreUpdate}
             onGameOver={handleGameOver}
+            onProgress={handleProgress}
+            onPartyUpdate={setPartyResult}
+            onPartyOver={handlePartyOver}
+            ghost={activeGhost?.replay ?? null}
+            ghostLabel={activeGhost?.name}
+            onGhostUpdate={setGhostLead}
+            race={raceRun ? raceClient : null}
             resetTrigger={resetTrigger}
             isMuted={isMuted}
+            replay={watchingReplay}
+            onExitReplay={exitReplay}
           />
 
           {/* UI Overlay: Score HUD */}
           <div className="absolute top-4 left-4 right-4 flex justify-between items-start pointer-events-none z-10">
             <div className="bg-slate-800/80 p-2 rounded-lg border border-slate-700 backdrop-blur-sm">
-              <span className="text-xs text-slate-400 block uppercase">Score</span>
-              <span className="text-2xl font-bold text-white">{score}</span>
-            </div>
-            <div className="bg-slate-800/80 p-2 rounded-lg border border-slate-700 text-right backdrop-blur-sm">
-              <span className="text-xs text-slate-400 block uppercase">Top Score</span>
-              <span className="text-xl font-bold text-yellow-400">{highScore}</span>
+              {activeParty === PartyMode.VERSUS ? (
+                <div className="flex gap-3">
+                  {(partyResult?.scores ?? []).map(({ character: c, score: s }) => (
+                    <div key={c}>
+                      <span className="text-xs block uppercase font-bold" style={{ color: c === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}>
+                        {PARTY_PLAYER_LABELS[c]}
+                      </span>
+                      <span className="text-2xl font-bold text-white">{s}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : activeParty === PartyMode.COOP ? (
+                <>
+                  <span className="text-xs text-slate-400 block uppercase">Team Score</span>
+                  <span className="text-2xl font-bold text-white">{score}</span>
+                </>
+              ) : activeMode === GameMode.ENDLESS ? (
+                <>
+                  <span className="text-xs text-slate-400 block uppercase">Score</span>
+                  <span className="text-2xl font-bold text-white">{score}</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-xs text-slate-400 block uppercase">Height</span>
+                  <span className="text-2xl font-bold text-white">
+                    {toMeters(progress.height)}
+                    {activeMode === GameMode.SPRINT && (
+                      <span className="text-sm text-slate-400"> / {toMeters(SPRINT_TARGET_HEIGHT)}</span>
+                    )}
+                    <span className="text-sm text-slate-400">m</span>
+                  </span>
+                </>
+              )}
+              {daily && (
+                <span className="block text-[10px] font-bold text-amber-300 mt-0.5">
+                  🗓 DAILY {daily.mode === 'ranked' ? 'RANKED' : 'PRACTICE'}
+                </span>
+              )}
             </div>
+            {activeParty ? (
+              <div className="bg-slate-800/80 p-2 rounded-lg border border-slate-700 text-right backdrop-blur-sm">
+                <span className="text-xs text-slate-400 block uppercase">
+                  {getPartyMode(activeParty).icon} Height
+                </span>
+                <span className="text-xl font-bold text-yellow-400">{toMeters(partyResult?.height ?? 0)}m</span>
+              </div>
+            ) : activeMode === GameMode.ENDLESS ? (
+              <div className="bg-slate-800/80 p-2 rounded-lg border border-slate-700 text-right backdrop-blur-sm">
+                <span className="text-xs text-slate-400 block uppercase">Top Score</span>
+                <span className="text-xl font-bold text-yellow-400">{highScore}</span>
+              </div>
+            ) : (
+              <div className="bg-slate-800/80 p-2 rounded-lg border border-slate-700 text-right backdrop-blur-sm">
+                <span className="text-xs text-slate-400 block uppercase">
+                  {getGameMode(activeMode).icon} {activeMode === GameMode.TIME_ATTACK ? 'Time Left' : 'Time'}
+                </span>
+                <span className="text-xl font-bold font-mono text-yellow-400">
+                  {formatTime(getClockTime(activeMode, progress.tick))}
+                </span>
+              </div>
+            )}
           </div>
 
+          {/* UI Overlay: Ghost race gap */}
+          {activeGhost && (gameState === GameState.PLAYING || gameState === GameState.PAUSED) && (
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 pointer-events-none z-10 bg-slate-800/80 px-3 py-1 rounded-full border border-slate-700 backdrop-blur-sm text-sm font-bold whitespace-nowrap">
+              {toMeters(Math.abs(ghostLead)) === 0 ? (
+                <span className="text-slate-300">👻 NECK AND NECK</span>
+              ) : ghostLead > 0 ? (
+                <span className="text-emerald-400">👻 AHEAD BY {toMeters(ghostLead)}m</span>
+              ) : (
+                <span className="text-red-400">👻 BEHIND BY {toMeters(-ghostLead)}m</span>
+              )}
+            </div>
+          )}
+
+          {/* UI Overlay: Live race ranking */}
+          {raceRun && raceSnapshot && (gameState === GameState.PLAYING || gameState === GameState.PAUSED) && (
+            <div className="absolute top-20 left-4 w-40 pointer-events-none z-10 bg-slate-800/80 p-2 rounded-lg border border-slate-700 backdrop-blur-sm text-xs">
+              {raceSnapshot.standings.map((s, i) => (
+                <div key={s.id} className={`flex gap-1 ${s.isYou ? 'text-white font-bold' : 'text-slate-300'}`}>
+                  <span className="w-4 text-slate-500">{i + 1}</span>
+                  <span className="flex-1 truncate">{s.name}</span>
+                  <span className="font-mono">{formatStanding(activeMode, s)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* UI Overlay: Start Screen */}
           {gameState === GameState.START && (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/90 backdrop-blur-sm rounded-lg z-20 p-6 text-center animate-fadeIn">
@@ -198,7 +884,7 @@ const App: React.FC = () => {
                 {/* Sparky Selection */}
                 <div className="flex flex-col items-center w-36">
                   <button 
-                    onClick={() => setCharacter(CharacterType.YELLOW)}
+                    onClick={() => selectCharacter(CharacterType.YELLOW)}
                     className={`w-28 h-28 rounded-2xl flex items-center justify-center transition-all transform hover:scale-105 border-4 mb-2 ${character === CharacterType.YELLOW ? 'border-white shadow-[0_0_20px_rgba(252,211,77,0.5)] scale-110 z-10' : 'border-transparent opacity-60 grayscale-[0.5]'}`}
                     style={{ backgroundColor: COLORS.yellowBody }}
                   >
@@ -217,6 +903,9 @@ const App: React.FC = () => {
                     </svg>
                   </button>
                   <span className="text-yellow-400 font-bold text-xl drop-shadow-md">스파키</span>
+                  {characterStats && characterStats[CharacterType.YELLOW].bestScore > 0 && (
+                    <span className="text-xs text-slate-400">BEST {characterStats[CharacterType.YELLOW].bestScore}</span>
+                  )}
                   
                   {/* Ability Badge */}
                   <div className="mt-2 px-2 py-1.5 bg-yellow-500/10 border border-yellow-500/30 rounded-lg backdrop-blur-sm w-full">
@@ -230,7 +919,7 @@ const App: React.FC = () => {
                 {/* Uni Selection */}
                 <div className="flex flex-col items-center w-36">
                   <button 
-                    onClick={() => setCharacter(CharacterType.BLUE)}
+                    onClick={() => selectCharacter(CharacterType.BLUE)}
                     className={`w-28 h-28 rounded-2xl flex items-center justify-center transition-all transform hover:scale-105 border-4 mb-2 ${character === CharacterType.BLUE ? 'border-white shadow-[0_0_20px_rgba(94,234,212,0.5)] scale-110 z-10' : 'border-transparent opacity-60 grayscale-[0.5]'}`}
                     style={{ backgroundColor: COLORS.blueBody }}
                   >
@@ -249,6 +938,9 @@ const App: React.FC = () => {
                     </svg>
                   </button>
                   <span className="text-teal-400 font-bold text-xl drop-shadow-md">유니</span>
+                  {characterStats && characterStats[CharacterType.BLUE].bestScore > 0 && (
+                    <span className="text-xs text-slate-400">BEST {characterStats[CharacterType.BLUE].bestScore}</span>
+                  )}
                   
                   {/* Ability Badge */}
                   <div className="mt-2 px-2 py-1.5 bg-teal-500/10 border border-teal-500/30 rounded-lg backdrop-blur-sm w-full">
@@ -260,12 +952,251 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <button 
-                onClick={startGame}
-                className="px-12 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full text-xl font-black text-white shadow-xl hover:from-blue-500 hover:to-indigo-500 hover:scale-105 transition-all active:scale-95 animate-pulse mt-4 ring-4 ring-blue-500/20"
-              >
-                GAME START
-              </button>
+              {raceClient ? (
+                <div className="mt-2 w-full max-w-xs bg-slate-800/60 border border-emerald-500/30 rounded-2xl p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-emerald-300 font-black">🏁 RACE ROOM</span>
+                    {raceRoom && (
+                      <button
+                        onClick={() => navigator.clipboard?.writeText(raceRoom.code)}
+                        className="font-mono text-xl font-black text-white tracking-widest hover:text-emerald-300 transition-colors"
+                        title="Copy room code"
+                      >
+                        {raceRoom.code} 📋
+                      </button>
+                    )}
+                  </div>
+
+                  {raceSnapshot?.error && (
+                    <p className="text-xs text-red-400 mb-2">{raceSnapshot.error}</p>
+                  )}
+                  {!raceRoom && raceSnapshot?.status !== 'closed' && (
+                    <p className="text-sm text-slate-400 mb-2 animate-pulse">레이스 서버에 연결하는 중...</p>
+                  )}
+
+                  {raceRoom && (
+                    <>
+                      {/* Mode: the host picks, everyone else sees it */}
+                      {raceRoom.hostId === raceSnapshot?.you && raceRoom.phase === 'lobby' ? (
+                        <div className="flex gap-1 bg-slate-900/60 p-1 rounded-xl mb-2">
+                          {GAME_MODE_LIST.map(m => (
+                            <button
+                              key={m.mode}
+                              onClick={() => raceClient.setMode(m.mode)}
+                              className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-colors ${raceRoom.mode === m.mode ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                              {m.icon} {m.label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-slate-300 font-bold mb-2">
+                          {getGameMode(raceRoom.mode).icon} {getGameMode(raceRoom.mode).label}
+                        </p>
+                      )}
+
+                      <ul className="text-sm mb-3 space-y-1">
+                        {raceRoom.members.map(m => (
+                          <li key={m.id} className={`flex items-center gap-2 px-2 py-1 rounded-lg ${m.id === raceSnapshot?.you ? 'bg-emerald-500/10 text-white font-bold' : 'text-slate-300'}`}>
+                            <span
+                              className="w-2 h-2 rounded-full"
+                              style={{ backgroundColor: m.character === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}
+                            />
+                            <span className="flex-1 text-left truncate">{m.name}</span>
+                            {m.id === raceRoom.hostId && <span title="Host">👑</span>}
+                            {raceRoom.phase === 'racing' && m.racing && (
+                              <span className="text-xs text-slate-400">{m.finish ? '🏁' : '🏃'}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+
+                      {raceRoom.phase === 'racing' ? (
+                        <p className="text-xs text-amber-300 mb-2">레이스 진행 중 — 끝나면 다음 판에 함께할 수 있어요.</p>
+                      ) : raceRoom.hostId === raceSnapshot?.you ? (
+                        <button
+                          onClick={() => raceClient.start()}
+                          className="w-full py-3 mb-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-black transition-transform active:scale-95"
+                        >
+                          RACE START ({raceRoom.members.length}명)
+                        </button>
+                      ) : (
+                        <p className="text-xs text-slate-400 mb-2 animate-pulse">방장이 레이스를 시작하기를 기다리는 중...</p>
+                      )}
+                    </>
+                  )}
+
+                  <button
+                    onClick={leaveRaceRoom}
+                    className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-xl font-bold text-sm transition-colors"
+                  >
+                    나가기
+                  </button>
+                </div>
+              ) : (
+                <>
+                {/* Players: one, or two sharing the keyboard / screen */}
+                <div className="w-full max-w-xs mb-2">
+                  <div className="flex gap-1 bg-slate-800/60 p-1 rounded-xl">
+                    <button
+                      onClick={() => setParty(null)}
+                      className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${party === null ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      👤 1P
+                    </button>
+                    {PARTY_MODE_LIST.map(m => (
+                      <button
+                        key={m.mode}
+                        onClick={() => setParty(m.mode)}
+                        className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${party === m.mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {m.icon} 2P {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  {party && (
+                    <p className="text-xs text-slate-400 mt-2">
+                      {getPartyMode(party).description}<br />
+                      <span className="text-slate-300 font-bold">1P 스파키 A / D · 2P 유니 ← / →</span>
+                    </p>
+                  )}
+                </div>
+
+                {/* Game Mode */}
+                {!party && (
+                <div className="w-full max-w-xs mb-2">
+                  <div className="flex gap-1 bg-slate-800/60 p-1 rounded-xl">
+                    {GAME_MODE_LIST.map(m => (
+                      <button
+                        key={m.mode}
+                        onClick={() => {
+                          setGameMode(m.mode);
+                          if (ghost && ghost.replay.mode !== m.mode) setGhost(null);
+                        }}
+                        className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${gameMode === m.mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {m.icon} {m.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-400 mt-2 min-h-[2rem]">{getGameMode(gameMode).description}</p>
+                </div>
+                )}
+
+                {/* Ghost race: my best here, anyone's run via 👻 on the leaderboard */}
+                {!party && (ghost ? (
+                  <div className="w-full max-w-xs mb-2 flex items-center justify-between bg-slate-800/60 border border-slate-600 rounded-xl px-3 py-2 text-sm">
+                    <span className="text-slate-200 font-bold truncate">
+                      👻 vs {ghost.name} · {formatResult(ghost.replay.mode, ghost.result)}
+                    </span>
+                    <button
+                      onClick={() => setGhost(null)}
+                      className="ml-2 text-slate-500 hover:text-white transition-colors"
+                      title="Race without a ghost"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ) : bestGhost && (
+                  <button
+                    onClick={() => setGhost(bestGhost)}
+                    className="w-full max-w-xs mb-2 py-2 bg-slate-800/60 hover:bg-slate-700 border border-slate-600 rounded-xl text-sm font-bold text-slate-300 transition-colors"
+                  >
+                    👻 내 최고 기록과 레이스 ({formatResult(bestGhost.replay.mode, bestGhost.result)})
+                  </button>
+                ))}
+
+                <button 
+                  onClick={() => startGame(null)}
+                  className="px-12 py-4 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-full text-xl font-black text-white shadow-xl hover:from-blue-500 hover:to-indigo-500 hover:scale-105 transition-all active:scale-95 animate-pulse mt-4 ring-4 ring-blue-500/20"
+                >
+                  GAME START
+                </button>
+
+                {/* Daily Tower: same course for everyone today */}
+                <div className="mt-6 w-full max-w-xs bg-slate-800/60 border border-amber-500/30 rounded-2xl p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-amber-300 font-black">🗓 DAILY TOWER</span>
+                    <span className="text-xs text-slate-400 font-mono">{getDailyKey()} UTC</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => startGame('ranked')}
+                      disabled={hasUsedRankedAttempt(getDailyKey())}
+                      className="flex-1 py-2 bg-amber-500 hover:bg-amber-400 text-slate-900 rounded-xl font-bold text-sm transition-transform active:scale-95 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                      {hasUsedRankedAttempt(getDailyKey()) ? '오늘 도전 완료' : '랭크 도전 (1회)'}
+                    </button>
+                    <button
+                      onClick={() => startGame('practice')}
+                      className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold text-sm transition-transform active:scale-95"
+                    >
+                      연습
+                    </button>
+                  </div>
+                </div>
+
+                {/* Race room: live race against colleagues on one seed */}
+                <div className="mt-3 w-full max-w-xs bg-slate-800/60 border border-emerald-500/30 rounded-2xl p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-emerald-300 font-black">🏁 RACE ROOM</span>
+                    <span className="text-xs text-slate-400">같은 타워에서 실시간 대결</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => openRaceRoom({ type: 'create', name: profile.name || DEFAULT_PLAYER_NAME, character, mode: gameMode })}
+                      className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-sm transition-transform active:scale-95"
+                    >
+                      방 만들기
+                    </button>
+                    <input
+                      value={roomCodeInput}
+                      onChange={e => setRoomCodeInput(normalizeRoomCode(e.target.value))}
+                      placeholder="코드"
+                      className="w-20 px-2 py-2 bg-slate-900 border border-slate-600 rounded-xl text-white text-sm font-mono text-center uppercase focus:outline-none focus:border-emerald-500"
+                    />
+                    <button
+                      onClick={() => openRaceRoom({ type: 'join', code: roomCodeInput, name: profile.name || DEFAULT_PLAYER_NAME, character })}
+                      disabled={!isRoomCode(roomCodeInput)}
+                      className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold text-sm transition-transform active:scale-95 disabled:text-slate-500 disabled:cursor-not-allowed"
+                    >
+                      참가
+                    </button>
+                  </div>
+                </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* UI Overlay: Paused */}
+          {gameState === GameState.PAUSED && !showHelp && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/80 backdrop-blur-sm rounded-lg z-20 p-6 text-center animate-fadeIn">
+              <h2 className="text-4xl text-white font-black mb-2">PAUSED</h2>
+              <p className="text-slate-400 mb-8 font-medium">Esc / P 키로 계속하기</p>
+
+              <div className="flex flex-col gap-3 w-full max-w-xs">
+                <button 
+                  onClick={resumeGame}
+                  className="w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-slate-900 rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
+                >
+                  Resume
+                </button>
+                {!raceRun && (
+                  <button 
+                    onClick={() => startGame()}
+                    className="w-full py-4 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold text-lg transition-transform active:scale-95"
+                  >
+                    Restart
+                  </button>
+                )}
+                <button 
+                  onClick={quitToHome}
+                  className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-colors"
+                >
+                  Home
+                </button>
+              </div>
             </div>
           )}
 
@@ -277,30 +1208,134 @@ const App: React.FC = () => {
                 {loadingMsg ? "Thinking of something witty..." : gameOverMessage}
               </p>
               
+              {partyResult && activeParty ? (
+                <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 mb-8 w-full max-w-xs">
+                  <div className="text-slate-400 text-sm uppercase tracking-wider mb-2">
+                    {getPartyMode(activeParty).icon} 2P {getPartyMode(activeParty).label} · {toMeters(partyResult.height)}m
+                  </div>
+                  {activeParty === PartyMode.COOP && (
+                    <div className="text-5xl font-black text-white mb-2">{partyResult.teamScore}</div>
+                  )}
+                  <div className="flex justify-around">
+                    {partyResult.scores.map(({ character: c, score: s }) => (
+                      <div key={c} className={activeParty === PartyMode.VERSUS && partyResult.winner !== null && partyResult.winner !== c ? 'opacity-50' : ''}>
+                        <div className="text-xs font-bold" style={{ color: c === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}>
+                          {activeParty === PartyMode.VERSUS && partyResult.winner === c && '👑 '}{PARTY_PLAYER_LABELS[c]}
+                        </div>
+                        <div className={`font-black text-white ${activeParty === PartyMode.VERSUS ? 'text-4xl' : 'text-xl'}`}>{s}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
               <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700 mb-8 w-full max-w-xs">
-                <div className="text-slate-400 text-sm uppercase tracking-wider mb-1">Final Score</div>
-                <div className="text-5xl font-black text-white">{score}</div>
+                <div className="text-slate-400 text-sm uppercase tracking-wider mb-1">
+                  {activeMode === GameMode.ENDLESS ? 'Final Score' : `${getGameMode(activeMode).title} · ${RESULT_LABELS[getGameMode(activeMode).unit]}`}
+                </div>
+                <div className="text-5xl font-black text-white">
+                  {activeMode === GameMode.ENDLESS ? score : runResult === null ? 'DNF' : formatResult(activeMode, runResult)}
+                </div>
+                {aroundMe && (
+                  <div className="text-blue-300 text-sm font-bold mt-2">🌍 Global Rank #{aroundMe.rank}</div>
+                )}
+                {activeGhost && (
+                  <div className="text-slate-400 text-sm font-bold mt-2">
+                    👻 {activeGhost.name} · {formatResult(activeGhost.replay.mode, activeGhost.result)}
+                  </div>
+                )}
               </div>
+              )}
+
+              {/* Around Me */}
+              {aroundMe && (
+                <div className="w-full max-w-xs mb-6 -mt-4 text-sm">
+                  {[
+                    ...aroundMe.entries.filter(e => e.score > score).map((e, i, above) => ({ ...e, rank: aroundMe.rank - above.length + i, isMe: false })),
+                    { name: 'YOU', score, character, rank: aroundMe.rank, isMe: true, playerId: profile.playerId },
+                    ...aroundMe.entries.filter(e => e.score <= score).map((e, i) => ({ ...e, rank: aroundMe.rank + 1 + i, isMe: false })),
+                  ].map((row, i) => (
+                    <div
+                      key={i}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${row.isMe ? 'bg-blue-500/20 text-white font-bold' : row.playerId === profile.playerId ? 'bg-blue-500/10 text-slate-300' : 'text-slate-400'}`}
+                    >
+                      <span className="w-10 text-left font-mono">#{row.rank}</span>
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: row.character === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}
+                      />
+                      <span className="flex-1 text-left truncate">{row.name}</span>
+                      <span className="font-mono">{row.score}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Live race ranking: keeps updating while others are still climbing */}
+              {raceRun && raceSnapshot && (
+                <div className="w-full max-w-xs mb-6 -mt-4 text-sm">
+                  {raceSnapshot.standings.map((s, i) => (
+                    <div
+                      key={s.id}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${s.isYou ? 'bg-emerald-500/20 text-white font-bold' : 'text-slate-400'}`}
+                    >
+                      <span className="w-6 text-left font-mono">{i === 0 && s.finish ? '🏆' : i + 1}</span>
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: s.character === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}
+                      />
+                      <span className="flex-1 text-left truncate">{s.name}</span>
+                      <span className="font-mono">{formatStanding(activeMode, s)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
 
               <div className="flex flex-col gap-3 w-full max-w-xs">
-                <button 
-                  onClick={startGame}
-                  className="w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-slate-900 rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
-                >
-                  Try Again
-                </button>
-                <button 
-                  onClick={() => setGameState(GameState.START)}
-                  className="w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
-                >
-                  Change Character
-                </button>
+                {raceRun ? (
+                  <button 
+                    onClick={() => setGameState(GameState.START)}
+                    className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
+                  >
+                    🏁 Back to Room
+                  </button>
+                ) : (
+                  <>
+                    <button 
+                      onClick={() => startGame()}
+                      className="w-full py-4 bg-yellow-500 hover:bg-yellow-400 text-slate-900 rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
+                    >
+                      {daily ? '연습하기 (Practice)' : 'Try Again'}
+                    </button>
+                    <button 
+                      onClick={() => setGameState(GameState.START)}
+                      className="w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
+                    >
+                      Change Character
+                    </button>
+                  </>
+                )}
                 <button 
                   onClick={() => setShowLeaderboard(true)}
                   className="w-full py-4 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-bold text-lg transition-transform active:scale-95"
                 >
                   Leaderboard
                 </button>
+                {lastReplay && (
+                  <div className="flex gap-3">
+                    <button 
+                      onClick={() => watchReplay(lastReplay)}
+                      className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-colors"
+                    >
+                      ▶ Replay
+                    </button>
+                    <button 
+                      onClick={() => shareReplay(lastReplay)}
+                      className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-colors"
+                    >
+                      {replayCopied ? 'Copied!' : '🔗 Share'}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -308,11 +1343,25 @@ const App: React.FC = () => {
           {/* UI Overlay: New Record Input */}
           {gameState === GameState.GAME_OVER && isNewRecord && !showLeaderboard && (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/95 backdrop-blur-md rounded-lg z-30 p-6 text-center animate-fadeIn">
-              <h2 className="text-3xl text-yellow-400 font-black mb-2">NEW RECORD!</h2>
-              <p className="text-slate-300 mb-6">You made it to the Top 20!</p>
+              <h2 className="text-3xl text-yellow-400 font-black mb-2">{daily ? 'DAILY TOWER' : 'NEW RECORD!'}</h2>
+              <p className="text-slate-300 mb-3">
+                {daily ? `${daily.day} 랭크 도전 기록` : isOnline ? 'You made it to the Top 20!' : 'New personal best!'}
+              </p>
+              <div className="flex flex-wrap justify-center gap-2 mb-6">
+                {LEADERBOARD_PERIODS.filter(p => recordPeriods.includes(p.id)).map(p => (
+                  <span key={p.id} className="text-xs font-bold text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 px-2 py-1 rounded-full">
+                    {p.title}
+                  </span>
+                ))}
+              </div>
               
               <div className="bg-slate-800/50 p-4 rounded-xl border border-yellow-500/30 mb-6 w-full max-w-xs">
-                <div className="text-5xl font-black text-white">{score}</div>
+                {activeMode !== GameMode.ENDLESS && (
+                  <div className="text-slate-400 text-sm uppercase tracking-wider mb-1">{getGameMode(activeMode).icon} {getGameMode(activeMode).title}</div>
+                )}
+                <div className="text-5xl font-black text-white">
+                  {activeMode === GameMode.ENDLESS ? score : formatResult(activeMode, runResult ?? 0)}
+                </div>
               </div>
 
               <form onSubmit={submitScore} className="w-full max-w-xs flex flex-col gap-4">
@@ -321,12 +1370,13 @@ const App: React.FC = () => {
                   <input 
                     type="text" 
                     value={playerName}
-                    onChange={(e) => setPlayerName(e.target.value)}
+                    onChange={(e) => { setPlayerName(e.target.value); setNameError(''); }}
                     placeholder="Anonymous"
-                    className="w-full bg-slate-800 border-2 border-slate-600 focus:border-blue-500 rounded-xl px-4 py-3 text-white outline-none font-bold text-lg text-center placeholder-slate-600"
-                    maxLength={10}
+                    className={`w-full bg-slate-800 border-2 ${nameError ? 'border-red-500' : 'border-slate-600'} focus:border-blue-500 rounded-xl px-4 py-3 text-white outline-none font-bold text-lg text-center placeholder-slate-600`}
+                    maxLength={MAX_NAME_LENGTH}
                     autoFocus
                   />
+                  {nameError && <div className="text-red-400 text-sm mt-2 text-center">{nameError}</div>}
                 </div>
                 <button 
                   type="submit"
@@ -347,7 +1397,7 @@ const App: React.FC = () => {
           )}
 
           {/* UI Overlay: Leaderboard */}
-          {showLeaderboard && (
+          {showLeaderboard && gameState !== GameState.REPLAY && (
             <div className="absolute inset-0 flex flex-col bg-slate-900/95 backdrop-blur-md rounded-lg z-30 p-6 animate-fadeIn">
               <div className="flex justify-between items-center mb-6">
                 <div className="flex items-center gap-2">
@@ -355,10 +1405,82 @@ const App: React.FC = () => {
                     {isOnline ? "GLOBAL RANKINGS" : "LOCAL RANKINGS"}
                   </h2>
                   {!isOnline && (
-                    <span className="text-xs text-slate-500 bg-slate-800 px-2 py-1 rounded">OFFLINE MODE</span>
+                    <span className="text-xs text-slate-500 bg-slate-800 px-2 py-1 rounded">{CONNECTION_LABELS[connection]}</span>
                   )}
                 </div>
               </div>
+
+              {/* Board: one per game mode, or today's Daily Tower */}
+              <div className="flex flex-wrap gap-2 mb-3">
+                {BOARD_VIEWS.map(v => (
+                  <button
+                    key={v.id}
+                    onClick={() => setBoardView(v.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${boardView === v.id ? 'border-amber-400 text-amber-300 bg-amber-500/10' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                  >
+                    {v.label}
+                  </button>
+                ))}
+              </div>
+
+              {boardView === 'daily' ? (
+                <div className="mb-4 text-xs text-slate-400 bg-slate-800/40 rounded-xl px-3 py-2">
+                  {getDailyKey()} (UTC) 오늘의 타워 — 모두 같은 코스, 랭크 도전은 하루 한 번
+                </div>
+              ) : (
+                <>
+                  {/* Period Tabs */}
+                  <div className="flex gap-1 mb-4 bg-slate-800/60 p-1 rounded-xl">
+                    {LEADERBOARD_PERIODS.map(p => (
+                      <button
+                        key={p.id}
+                        onClick={() => setLeaderboardPeriod(p.id)}
+                        className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${leaderboardPeriod === p.id ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {p.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Character Filter */}
+                  <div className="flex gap-2 mb-3">
+                    {CHARACTER_FILTERS.map(f => (
+                      <button
+                        key={f.id ?? 'all'}
+                        onClick={() => setCharacterFilter(f.id)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${characterFilter === f.id ? 'border-white text-white bg-slate-700' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                      >
+                        {f.label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* My Stats per Character (this device, endless runs) */}
+                  {characterStats && boardView === GameMode.ENDLESS && (
+                    <div className="mb-4 grid grid-cols-[auto_1fr_1fr_1fr_1fr] gap-x-3 gap-y-1 text-xs text-slate-400 bg-slate-800/40 rounded-xl px-3 py-2">
+                      <span />
+                      <span className="text-right">플레이</span>
+                      <span className="text-right">평균</span>
+                      <span className="text-right">최고</span>
+                      <span className="text-right">최고 높이</span>
+                      {[CharacterType.YELLOW, CharacterType.BLUE]
+                        .filter(c => characterFilter === null || characterFilter === c)
+                        .map(c => (
+                          <React.Fragment key={c}>
+                            <span className="flex items-center gap-1 font-bold text-slate-300">
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: c === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }} />
+                              {c === CharacterType.YELLOW ? '스파키' : '유니'}
+                            </span>
+                            <span className="text-right font-mono">{characterStats[c].plays}</span>
+                            <span className="text-right font-mono">{characterStats[c].averageScore}</span>
+                            <span className="text-right font-mono text-white">{characterStats[c].bestScore}</span>
+                            <span className="text-right font-mono">{toMeters(characterStats[c].bestHeight)}m</span>
+                          </React.Fragment>
+                        ))}
+                    </div>
+                  )}
+                </>
+              )}
               
               <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
                 {isLoadingLeaderboard ? (
@@ -371,12 +1493,15 @@ const App: React.FC = () => {
                       <tr>
                         <th className="pb-2 pl-2">#</th>
                         <th className="pb-2">Name</th>
-                        <th className="pb-2 text-right pr-2">Score</th>
+                        <th className="pb-2 text-right pr-2">
+                          {RESULT_LABELS[getGameMode(boardView === 'daily' ? undefined : boardView).unit]}
+                        </th>
+                        <th className="pb-2 w-8"></th>
                       </tr>
                     </thead>
                     <tbody>
                       {leaderboard.map((entry, index) => (
-                        <tr key={index} className={`border-b border-slate-800 ${index < 3 ? 'text-white font-bold' : 'text-slate-400'}`}>
+                        <tr key={entry.runId ?? index} className={`border-b border-slate-800 ${index < 3 ? 'text-white font-bold' : 'text-slate-400'} ${entry.isLocal || entry.playerId === profile.playerId ? 'bg-blue-500/10' : ''}`}>
                           <td className="py-3 pl-2">
                             {index === 0 && '🥇'}
                             {index === 1 && '🥈'}
@@ -386,11 +1511,67 @@ const App: React.FC = () => {
                           <td className="py-3 flex items-center gap-2">
                             <div 
                               className="w-3 h-3 rounded-full" 
-                              style={{ backgroundColor: entry.character === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }} 
+                              style={{
+                                backgroundColor: entry.character === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody,
+                                boxShadow: entry.avatarColor ? `0 0 0 2px ${entry.avatarColor}` : undefined
+                              }} 
                             />
                             {entry.name}
+                            {(entry.isLocal || entry.playerId === profile.playerId) && (
+                              <span className="text-[10px] text-blue-300 bg-blue-500/20 px-1 rounded">YOU</span>
+                            )}
+                            {entry.verified && (
+                              <span className="text-[10px] text-emerald-400" title="Verified by replay">✓</span>
+                            )}
+                            {entry.syncStatus === 'pending' && (
+                              <span className="text-[10px]" title="Waiting to upload">⏳</span>
+                            )}
+                            {entry.syncStatus === 'synced' && (
+                              <span className="text-[10px]" title="Uploaded">☁️</span>
+                            )}
+                            {entry.syncStatus === 'rejected' && (
+                              <span className="text-[10px]" title={entry.rejectionReason ?? 'Rejected by the server'}>⛔</span>
+                            )}
+                            {entry.isLocal && !entry.syncStatus && (
+                              <span className="text-[10px] text-slate-500 bg-slate-800 px-1 rounded" title="Only on this device">LOCAL</span>
+                            )}
+                          </td>
+                          <td className="py-3 text-right pr-2 font-mono text-lg">{formatResult(entry.mode, entry.score)}</td>
+                          <td className="py-3 text-center">
+                            {entry.replay && (
+                              <button
+                                onClick={() => {
+                                  const replay = parseReplay(entry.replay ?? '');
+                                  if (replay) watchReplay(replay);
+                                }}
+                                className="text-slate-500 hover:text-white transition-colors"
+                                title="Watch Replay"
+                              >
+                                ▶
+                              </button>
+                            )}
+                            {entry.replay && (
+                              <button
+                                onClick={() => {
+                                  const run = toGhostRun(entry);
+                                  if (run) raceGhost(run);
+                                }}
+                                className="ml-1 text-slate-500 hover:text-white transition-colors"
+                                title="Race this run as a ghost"
+                              >
+                                👻
+                              </button>
+                            )}
+                            {!entry.isLocal && !entry.daily && entry.runId && entry.playerId === profile.playerId && (
+                              <button
+                                onClick={() => deleteEntry(entry)}
+                                className="ml-1 text-slate-600 hover:text-red-400 transition-colors"
+                                title="Delete my record"
+                              >
+                                🗑
+                              </button>
+                            )}
                           </td>
-                          <td className="py-3 text-right pr-2 font-mono text-lg">{entry.score}</td>
                         </tr>
                       ))}
                     </tbody>
@@ -398,15 +1579,15 @@ const App: React.FC = () => {
                 )}
               </div>
               
-              {!isOnline && (
+              {connection === 'unreachable' && (
                 <div className="mt-2 text-xs text-slate-600 text-center border-t border-slate-800 pt-2">
-                  To enable global rankings, configure /public/firebase.json on your server.
+                  To enable global rankings, configure /public/firebase.json (or /public/leaderboard.json) on your server.
                 </div>
               )}
 
               <div className="mt-4 flex flex-col gap-3">
                 <button 
-                  onClick={startGame}
+                  onClick={() => startGame()}
                   className="w-full py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold text-lg transition-transform active:scale-95 shadow-lg"
                 >
                   Play Again
@@ -422,6 +1603,101 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {/* Profile Modal */}
+        {showProfile && (
+          <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn" onClick={() => setShowProfile(false)}>
+            <div className="bg-slate-900 border border-slate-700 w-full max-w-md max-h-[80vh] rounded-2xl p-6 shadow-2xl relative flex flex-col" onClick={e => e.stopPropagation()}>
+              <button 
+                onClick={() => setShowProfile(false)}
+                className="absolute top-4 right-4 text-slate-500 hover:text-white"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+
+              <h3 className="text-xl text-white font-bold mb-4 flex items-center gap-2 shrink-0">
+                <span className="w-6 h-6 rounded-full border-2 border-white/80" style={{ backgroundColor: profile.avatarColor }} /> 내 프로필 (Profile)
+              </h3>
+
+              <div className="space-y-5 text-slate-300 overflow-y-auto custom-scrollbar pr-2 flex-1">
+                <div>
+                  <label className="text-slate-400 text-sm mb-1 block">이름 (Name)</label>
+                  <input 
+                    type="text" 
+                    value={profile.name}
+                    onChange={(e) => changeProfile({ name: e.target.value })}
+                    placeholder="익명"
+                    className="w-full bg-slate-800 border-2 border-slate-600 focus:border-blue-500 rounded-xl px-4 py-2 text-white outline-none font-bold placeholder-slate-600"
+                    maxLength={MAX_NAME_LENGTH}
+                  />
+                </div>
+
+                <div>
+                  <div className="text-slate-400 text-sm mb-1">기본 캐릭터 (Preferred Character)</div>
+                  <div className="flex gap-2">
+                    {[CharacterType.YELLOW, CharacterType.BLUE].map(type => (
+                      <button
+                        key={type}
+                        onClick={() => selectCharacter(type)}
+                        className={`flex-1 py-2 rounded-xl font-bold text-slate-900 border-2 transition-opacity ${profile.preferredCharacter === type ? 'border-white' : 'border-transparent opacity-50'}`}
+                        style={{ backgroundColor: type === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody }}
+                      >
+                        {type === CharacterType.YELLOW ? '스파키' : '유니'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="text-slate-400 text-sm mb-1">아바타 색 (Avatar Colour)</div>
+                  <div className="flex flex-wrap gap-2">
+                    {AVATAR_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => changeProfile({ avatarColor: color })}
+                        className={`w-8 h-8 rounded-full border-2 ${profile.avatarColor === color ? 'border-white scale-110' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div className="text-xs text-slate-500 border-t border-slate-800 pt-3 space-y-2">
+                  <div>Player ID: <span className="font-mono">{profile.playerId.slice(0, 8)}</span></div>
+                  {profile.authUid && (
+                    <div className="text-emerald-400">
+                      ✓ 계정 연결됨 ({profile.authProvider === 'google' ? 'Google' : '익명'}) <span className="font-mono text-slate-500">{profile.authUid.slice(0, 8)}</span>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {!profile.authUid && (
+                      <button
+                        onClick={() => linkAccount('anonymous')}
+                        disabled={isLinkingAccount}
+                        className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg font-bold disabled:opacity-50"
+                      >
+                        {isLinkingAccount ? '연결 중...' : '🔗 익명 계정 연결'}
+                      </button>
+                    )}
+                    {profile.authProvider !== 'google' && (
+                      <button
+                        onClick={() => linkAccount('google')}
+                        disabled={isLinkingAccount}
+                        className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg font-bold disabled:opacity-50"
+                      >
+                        {isLinkingAccount ? '연결 중...' : 'G Google로 로그인 (선택)'}
+                      </button>
+                    )}
+                  </div>
+                  {profileError && <div className="text-red-400">{profileError}</div>}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Help Modal */}
         {showHelp && (
           <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn" onClick={() => setShowHelp(false)}>
@@ -475,37 +1751,20 @@ const App: React.FC = () => {
                 <div>
                   <h4 className="text-white font-semibold mb-2 border-b border-slate-700 pb-1">✨ 아이템 도감</h4>
                   <div className="grid grid-cols-1 gap-3">
-                    <div className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg">
-                       <div className="w-10 h-10 rounded-full bg-blue-500/20 flex items-center justify-center text-xl shrink-0 border border-blue-500/50">🛡️</div>
-                       <div>
-                         <div className="font-bold text-blue-300 text-sm">보호막 (Shield)</div>
-                         <div className="text-xs text-slate-400">추락 시 1회 부활합니다. (최대 3개 누적)</div>
-                       </div>
-                    </div>
-                    
-                    {/* Double Jump Removed */}
-
-                    <div className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg">
-                       <div className="w-10 h-10 rounded-full bg-yellow-500/20 flex items-center justify-center text-xl shrink-0 border border-yellow-500/50">⭐</div>
-                       <div>
-                         <div className="font-bold text-yellow-300 text-sm">점수 2배 (x2 Score)</div>
-                         <div className="text-xs text-slate-400">10초간 획득 점수가 2배가 됩니다.</div>
-                       </div>
-                    </div>
-                    <div className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg">
-                       <div className="w-10 h-10 rounded-full bg-emerald-500/20 flex items-center justify-center text-xl shrink-0 border border-emerald-500/50">🍄</div>
-                       <div>
-                         <div className="font-bold text-emerald-300 text-sm">거대화 (Giant)</div>
-                         <div className="text-xs text-slate-400">5초간 커져서 발판 밟기가 쉬워집니다.</div>
-                       </div>
-                    </div>
-                    <div className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg">
-                       <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center text-xl shrink-0 border border-red-500/50">🚀</div>
-                       <div>
-                         <div className="font-bold text-red-400 text-sm">부스터 (Rocket)</div>
-                         <div className="text-xs text-slate-400">3초간 위로 빠르게 상승합니다.</div>
-                       </div>
-                    </div>
+                    {POWER_UP_LIST.map(item => (
+                      <div key={item.type} className="flex items-center gap-3 bg-slate-800/50 p-2 rounded-lg">
+                         <div 
+                           className="w-10 h-10 rounded-full flex items-center justify-center text-xl shrink-0 border"
+                           style={{ backgroundColor: item.color + '33', borderColor: item.color + '80' }}
+                         >
+                           {item.icon}
+                         </div>
+                         <div>
+                           <div className="font-bold text-sm" style={{ color: item.color }}>{item.name}</div>
+                           <div className="text-xs text-slate-400">{item.description}</div>
+                         </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
 
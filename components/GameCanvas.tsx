@@ -1,41 +1,87 @@
 
 import React, { useRef, useEffect, useCallback, useState } from 'react';
-import { GameState, Player, Platform, CharacterType, Particle, PowerUpType, Ripple } from '../types';
+import { GameState, GameMode, PartyMode, Player, Platform, PlatformKind, Enemy, EnemyKind, CharacterType, PowerUpType, GameSound } from '../types';
 import { 
   CANVAS_WIDTH, 
   CANVAS_HEIGHT, 
-  GRAVITY, 
-  JUMP_STRENGTH, 
-  PLAYER_SIZE, 
-  PLATFORM_WIDTH, 
-  PLATFORM_HEIGHT, 
   COLORS,
-  FRICTION,
-  POWERUP_SIZE,
-  POWERUP_SPAWN_CHANCE,
-  POWERUP_DURATION,
   BACKGROUND_LOGO_URL,
   BACKGROUND_MUSIC_URL,
-  SCORE_TIERS,
-  CHARACTER_SPECS
+  FIXED_TIMESTEP,
+  TICKS_PER_SECOND,
+  POWERUP_WARNING,
+  CRUMBLE_TICKS,
+  PLAYER_SIZE
 } from '../constants';
+import { createGameEngine, createPlayer, EngineInput, GameWorld, NO_INPUT } from '../engine/gameEngine';
+import { POWER_UPS, getPowerUpTicks, getScoreMultiplier, getPowerUpPosition } from '../engine/powerUps';
+import { getPlatformKind, getVanishAlpha } from '../engine/platforms';
+import { ENEMIES } from '../engine/enemies';
+import { Replay, ReplayRecorder, ReplayPlayer, createReplayRecorder, createReplayPlayer } from '../engine/replay';
+import { GAME_MODES, toDisplayScore } from '../engine/gameModes';
+import { PARTY_MODES, PartyResult, getPartyResult } from '../engine/party';
+import { Ghost, createGhost, getGhostLead, getGhostScreenY } from '../engine/ghost';
+import { RaceRoomClient } from '../services/raceRoom';
 
 interface GameCanvasProps {
   gameState: GameState;
   characterType: CharacterType;
   onScoreUpdate: (score: number) => void;
-  onGameOver: () => void;
+  // height: pixels climbed; result: the mode's ranked value (null = no record)
+  onGameOver: (replay: Replay, height: number, result: number | null) => void;
+  onProgress?: (tick: number, height: number) => void; // Throttled, for the HUD clock
+  onPartyUpdate?: (result: PartyResult) => void; // Two-player runs: throttled scores, then the final result
+  onPartyOver?: (result: PartyResult) => void;   // Two-player runs end here instead of onGameOver
+  onGhostUpdate?: (lead: number) => void; // Ghost races: pixels ahead of the ghost (negative = behind), throttled
   resetTrigger: number;
   isMuted: boolean;
+  seed?: number; // Fixed tower layout; a fresh seed is rolled when omitted
+  mode?: GameMode;
+  party?: PartyMode | null; // Local two-player run (always endless, not recorded)
+  ghost?: Replay | null; // Recorded run raced as a translucent rival (pass its seed and mode too)
+  ghostLabel?: string;
+  race?: RaceRoomClient | null; // Live race: sends this run's position, draws everyone else's
+  replay?: Replay | null; // Run shown while gameState is REPLAY
+  onExitReplay?: () => void;
 }
 
+const REPLAY_SPEEDS = [1, 2, 4];
+const PROGRESS_TICKS = 6; // onProgress at most 10 times a second
+const GHOST_ALPHA = 0.35;
+const RIVAL_ALPHA = 0.5; // Live race opponents
+
+// Two-player keys: Sparky on A/D, Uni on the arrow keys (solo accepts both)
+const PARTY_KEYS = [
+  { left: 'KeyA', right: 'KeyD' },
+  { left: 'ArrowLeft', right: 'ArrowRight' },
+];
+
+// Special kinds override the tier color with [base, light]
+const PLATFORM_KIND_COLORS: Partial<Record<PlatformKind, [string, string]>> = {
+  [PlatformKind.CRUMBLING]: [COLORS.crumbling, COLORS.crumblingLight],
+  [PlatformKind.SPRING]: [COLORS.springPad, '#FED7AA'],
+  [PlatformKind.SPIKE]: ['#475569', '#64748B'],
+};
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({ 
   gameState, 
   characterType, 
   onScoreUpdate, 
   onGameOver,
+  onProgress,
+  onPartyUpdate,
+  onPartyOver,
+  onGhostUpdate,
   resetTrigger,
-  isMuted
+  isMuted,
+  seed,
+  mode = GameMode.ENDLESS,
+  party = null,
+  ghost = null,
+  ghostLabel,
+  race = null,
+  replay,
+  onExitReplay
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
@@ -46,54 +92,50 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
   // Game Loop Timing Refs
   const lastTimeRef = useRef<number>(0);
-  const accumulatorRef = useRef<number>(0);
   const readyEndTimeRef = useRef<number>(0); // Time when ready phase ends
   const lastReadyCountRef = useRef<number>(0); // To track countdown sound playback
-  const FIXED_TIMESTEP = 1000 / 60; // Target exactly 60 physics updates per second
+  const prevGameStateRef = useRef<GameState>(gameState);
   const MAX_DELTA_TIME = 250; // Cap frame time to prevent spiraling on lag
   
   // Refs to hold latest callback functions
   const onScoreUpdateRef = useRef(onScoreUpdate);
   const onGameOverRef = useRef(onGameOver);
+  const onProgressRef = useRef(onProgress);
+  const onPartyUpdateRef = useRef(onPartyUpdate);
+  const onPartyOverRef = useRef(onPartyOver);
+  const onGhostUpdateRef = useRef(onGhostUpdate);
+  const lastProgressTickRef = useRef(0);
+  const partyRef = useRef(party); // Read by the touch handlers, which are bound once
+  const raceRef = useRef(race);
 
   useEffect(() => {
     onScoreUpdateRef.current = onScoreUpdate;
     onGameOverRef.current = onGameOver;
-  }, [onScoreUpdate, onGameOver]);
-
-  // Mutable game state
-  const playerRef = useRef<Player>({
-    x: CANVAS_WIDTH / 2 - PLAYER_SIZE / 2,
-    y: CANVAS_HEIGHT - 150,
-    vx: 0,
-    vy: 0,
-    width: PLAYER_SIZE,
-    height: PLAYER_SIZE,
-    type: characterType,
-    isJumping: false,
-    baseJumpStrength: -14,
-    gravity: 0.5,
-    moveSpeed: 1.0,
-    shieldCount: 0,
-    scoreMultiplierActive: false,
-    scoreMultiplierEndTime: 0,
-    isGiant: false,
-    giantEndTime: 0,
-    isBoosting: false,
-    boosterEndTime: 0,
-  });
-  
-  const platformsRef = useRef<Platform[]>([]);
-  const particlesRef = useRef<Particle[]>([]);
-  const ripplesRef = useRef<Ripple[]>([]);
-  const scoreRef = useRef(0);
+    onProgressRef.current = onProgress;
+    onPartyUpdateRef.current = onPartyUpdate;
+    onPartyOverRef.current = onPartyOver;
+    onGhostUpdateRef.current = onGhostUpdate;
+    partyRef.current = party;
+    raceRef.current = race;
+  }, [onScoreUpdate, onGameOver, onProgress, onPartyUpdate, onPartyOver, onGhostUpdate, party, race]);
+
+  // Headless simulation (player, platforms, particles, ripples, score)
+  const engineRef = useRef(createGameEngine(characterType));
   const keysPressed = useRef<{ [key: string]: boolean }>({});
-  const frameCountRef = useRef(0);
-  
-  // Power-up timers
-  const multiplierTimerRef = useRef<number | null>(null);
-  const giantTimerRef = useRef<number | null>(null);
-  const boosterTimerRef = useRef<number | null>(null);
+
+  // Replay recording (live runs) and playback (REPLAY state)
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const ghostRef = useRef<Ghost | null>(null); // Rival replayed alongside the live run
+  const [isReplayPaused, setIsReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayTick, setReplayTick] = useState(0);
+
+  // World currently on screen
+  const getWorld = (): GameWorld =>
+    gameState === GameState.REPLAY && replayPlayerRef.current
+      ? replayPlayerRef.current.world
+      : engineRef.current.world;
 
   // --- Sound Effects & Music ---
   const musicGainRef = useRef<GainNode | null>(null);
@@ -169,7 +211,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   }, [gameState]);
 
-  const playSound = (type: 'jump' | 'die' | 'powerup' | 'shield' | 'collect_shield' | 'collect_star' | 'collect_mushroom' | 'collect_rocket' | 'beep' | 'start') => {
+  const playSound = (type: GameSound) => {
     if (!audioCtxRef.current || isMuted) return;
     try {
       const ctx = audioCtxRef.current;
@@ -188,6 +230,15 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
         osc.start();
         osc.stop(t + 0.1);
+      } else if (type === 'stomp') {
+        // Squash
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(500, t);
+        osc.frequency.exponentialRampToValueAtTime(80, t + 0.12);
+        gain.gain.setValueAtTime(0.08, t);
+        gain.gain.exponentialRampToValueAtTime(0.01, t + 0.12);
+        osc.start();
+        osc.stop(t + 0.12);
       } else if (type === 'die') {
         osc.type = 'sawtooth';
         osc.frequency.setValueAtTime(200, t);
@@ -244,6 +295,44 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
          gain.gain.exponentialRampToValueAtTime(0.01, t + 1.5);
          osc.start();
          osc.stop(t + 1.5);
+      } else if (type === 'collect_magnet') {
+         // Two-tone wobble
+         osc.type = 'square';
+         osc.frequency.setValueAtTime(400, t);
+         osc.frequency.setValueAtTime(600, t + 0.08);
+         osc.frequency.setValueAtTime(400, t + 0.16);
+         osc.frequency.setValueAtTime(800, t + 0.24);
+         gain.gain.setValueAtTime(0.06, t);
+         gain.gain.linearRampToValueAtTime(0, t + 0.35);
+         osc.start();
+         osc.stop(t + 0.35);
+      } else if (type === 'collect_slowmo') {
+         // Long falling sweep
+         osc.type = 'sine';
+         osc.frequency.setValueAtTime(900, t);
+         osc.frequency.exponentialRampToValueAtTime(150, t + 0.7);
+         gain.gain.setValueAtTime(0.1, t);
+         gain.gain.linearRampToValueAtTime(0, t + 0.7);
+         osc.start();
+         osc.stop(t + 0.7);
+      } else if (type === 'collect_spring') {
+         osc.type = 'triangle';
+         osc.frequency.setValueAtTime(200, t);
+         osc.frequency.exponentialRampToValueAtTime(900, t + 0.2);
+         gain.gain.setValueAtTime(0.1, t);
+         gain.gain.linearRampToValueAtTime(0, t + 0.25);
+         osc.start();
+         osc.stop(t + 0.25);
+      } else if (type === 'spring') {
+         // Boing
+         osc.type = 'triangle';
+         osc.frequency.setValueAtTime(150, t);
+         osc.frequency.exponentialRampToValueAtTime(700, t + 0.12);
+         osc.frequency.exponentialRampToValueAtTime(350, t + 0.2);
+         gain.gain.setValueAtTime(0.1, t);
+         gain.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+         osc.start();
+         osc.stop(t + 0.2);
       } else if (type === 'beep') {
          osc.type = 'sine';
          osc.frequency.setValueAtTime(440, t);
@@ -252,6 +341,26 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
          gain.gain.linearRampToValueAtTime(0, t + 0.1);
          osc.start();
          osc.stop(t + 0.1);
+      } else if (type === 'finish') {
+         // Fanfare: the mode's goal or time limit was reached
+         osc.type = 'square';
+         osc.frequency.setValueAtTime(523, t);
+         osc.frequency.setValueAtTime(659, t + 0.12);
+         osc.frequency.setValueAtTime(784, t + 0.24);
+         osc.frequency.setValueAtTime(1047, t + 0.36);
+         gain.gain.setValueAtTime(0.08, t);
+         gain.gain.linearRampToValueAtTime(0, t + 0.7);
+         osc.start();
+         osc.stop(t + 0.7);
+      } else if (type === 'revive') {
+         // Bubble pop and a rising chirp: a co-op partner is back
+         osc.type = 'sine';
+         osc.frequency.setValueAtTime(400, t);
+         osc.frequency.exponentialRampToValueAtTime(1000, t + 0.25);
+         gain.gain.setValueAtTime(0.1, t);
+         gain.gain.linearRampToValueAtTime(0, t + 0.3);
+         osc.start();
+         osc.stop(t + 0.3);
       } else if (type === 'start') {
          osc.type = 'square';
          osc.frequency.setValueAtTime(880, t);
@@ -264,89 +373,99 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     } catch (e) {}
   };
 
-  // Helper to get current score tier
-  const getCurrentTier = (currentScore: number) => {
-    for (let i = SCORE_TIERS.length - 1; i >= 0; i--) {
-        if (currentScore >= SCORE_TIERS[i].min) {
-            return SCORE_TIERS[i];
-        }
-    }
-    return SCORE_TIERS[0];
-  };
+  // Map held keys / touch buttons to engine input
+  const readInput = (): EngineInput => ({
+    left: !!(keysPressed.current['ArrowLeft'] || keysPressed.current['KeyA']),
+    right: !!(keysPressed.current['ArrowRight'] || keysPressed.current['KeyD']),
+  });
+
+  // Two-player runs: one set of keys per player
+  const readPartyInput = (slot: number): EngineInput => ({
+    left: !!keysPressed.current[PARTY_KEYS[slot].left],
+    right: !!keysPressed.current[PARTY_KEYS[slot].right],
+  });
 
   // --- Game Logic ---
 
   const resetGame = useCallback(() => {
     initAudio();
 
-    if (multiplierTimerRef.current) clearTimeout(multiplierTimerRef.current);
-    if (giantTimerRef.current) clearTimeout(giantTimerRef.current);
-    if (boosterTimerRef.current) clearTimeout(boosterTimerRef.current);
-    
     keysPressed.current = {}; 
 
-    // Apply Character specific stats
-    const stats = CHARACTER_SPECS[characterType];
-
-    playerRef.current = {
-      x: CANVAS_WIDTH / 2 - PLAYER_SIZE / 2,
-      y: CANVAS_HEIGHT - 150,
-      vx: 0,
-      vy: 0,
-      width: PLAYER_SIZE,
-      height: PLAYER_SIZE,
-      type: characterType,
-      isJumping: false,
-      // Apply stats
-      baseJumpStrength: stats.jumpStrength,
-      gravity: stats.gravity,
-      moveSpeed: stats.moveSpeed,
-      // Power-ups
-      shieldCount: 0,
-      scoreMultiplierActive: false,
-      scoreMultiplierEndTime: 0,
-      isGiant: false,
-      giantEndTime: 0,
-      isBoosting: false,
-      boosterEndTime: 0,
-    };
-
-    const initialTier = SCORE_TIERS[0];
-    // Initial platforms are static, so use default color
-    platformsRef.current = [
-      { x: CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2, y: CANVAS_HEIGHT - 50, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 0, color: initialTier.color, lightColor: initialTier.light },
-      { x: CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2, y: CANVAS_HEIGHT - 170, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 1, color: initialTier.color, lightColor: initialTier.light },
-      { x: CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2 - 60, y: CANVAS_HEIGHT - 290, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 2, color: initialTier.color, lightColor: initialTier.light },
-      { x: CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2 + 60, y: CANVAS_HEIGHT - 410, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 3, color: initialTier.color, lightColor: initialTier.light },
-      { x: CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2, y: CANVAS_HEIGHT - 530, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 4, color: initialTier.color, lightColor: initialTier.light },
-    ];
-    
-    scoreRef.current = 0;
-    particlesRef.current = [];
-    ripplesRef.current = [];
+    engineRef.current.reset(characterType, seed, party ? GameMode.ENDLESS : mode, party);
+    // Two-player runs can't be re-simulated from one input log, so they aren't recorded
+    recorderRef.current = party ? null : createReplayRecorder(engineRef.current.world.seed, characterType, mode);
+    ghostRef.current = ghost && !party ? createGhost(ghost) : null;
+    lastProgressTickRef.current = 0;
     
     // Set Ready Time (1.5 seconds for READY -> GO)
     readyEndTimeRef.current = performance.now() + 1500;
     lastReadyCountRef.current = 1; 
     
     lastTimeRef.current = performance.now();
-    accumulatorRef.current = 0;
 
     if (onScoreUpdateRef.current) onScoreUpdateRef.current(0);
-  }, [characterType]);
+    if (onProgressRef.current) onProgressRef.current(0, 0);
+    if (ghostRef.current && onGhostUpdateRef.current) onGhostUpdateRef.current(0);
+  }, [characterType, seed, mode, party, ghost]);
 
   useEffect(() => {
     resetGame();
   }, [resetTrigger, resetGame]);
 
+  // Pause / Resume
+  useEffect(() => {
+    if (gameState === GameState.PAUSED) {
+        // Drop held keys so nothing stays pressed after a blur
+        keysPressed.current = {};
+    } else if (gameState === GameState.PLAYING && prevGameStateRef.current === GameState.PAUSED) {
+        // Replay the READY -> GO countdown before physics resumes
+        readyEndTimeRef.current = performance.now() + 1500;
+        lastReadyCountRef.current = 1;
+    }
+    prevGameStateRef.current = gameState;
+  }, [gameState]);
+
+  useEffect(() => {
+    replayPlayerRef.current = replay ? createReplayPlayer(replay) : null;
+    setIsReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayTick(0);
+  }, [replay]);
+
+  const seekReplay = (tick: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    player.seek(tick);
+    setReplayTick(player.world.tick);
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => { 
         keysPressed.current[e.code] = true; 
     };
     const handleKeyUp = (e: KeyboardEvent) => { keysPressed.current[e.code] = false; };
     
+    // Two-player touch: the canvas splits into four columns,
+    // Sparky ◀ ▶ on the left half and Uni ◀ ▶ on the right
+    const updatePartyTouches = (touches: TouchList) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const keys = PARTY_KEYS.flatMap(k => [k.left, k.right]);
+      keys.forEach(key => { keysPressed.current[key] = false; });
+      Array.from(touches).forEach(touch => {
+        const column = Math.floor(((touch.clientX - rect.left) / rect.width) * keys.length);
+        const key = keys[Math.max(0, Math.min(column, keys.length - 1))];
+        keysPressed.current[key] = true;
+      });
+    };
+
     const handleTouchStart = (e: TouchEvent) => {
       initAudio();
+      if (partyRef.current) {
+        updatePartyTouches(e.touches);
+        return;
+      }
       const touchX = e.touches[0].clientX;
       const touchY = e.touches[0].clientY;
       const rect = canvasRef.current?.getBoundingClientRect();
@@ -362,7 +481,11 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       }
     };
 
-    const handleTouchEnd = () => {
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (partyRef.current) {
+        updatePartyTouches(e.touches); // Fingers still down keep their columns
+        return;
+      }
       keysPressed.current['ArrowLeft'] = false;
       keysPressed.current['ArrowRight'] = false;
     };
@@ -392,12 +515,11 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   }, []);
 
   useEffect(() => {
-    if (gameState !== GameState.PLAYING) {
-        playerRef.current.type = characterType;
+    if (gameState !== GameState.PLAYING && !engineRef.current.world.party) {
+        engineRef.current.world.players[0].type = characterType;
     }
 
     lastTimeRef.current = performance.now();
-    accumulatorRef.current = 0;
 
     const animate = () => {
       const now = performance.now();
@@ -426,21 +548,42 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
                  lastReadyCountRef.current = 0;
              }
 
-            accumulatorRef.current += deltaTime;
-
-            let steps = 0;
-            while (accumulatorRef.current >= FIXED_TIMESTEP) {
-              updatePhysics();
-              frameCountRef.current++; 
-              accumulatorRef.current -= FIXED_TIMESTEP;
-              
-              steps++;
-              if (steps > 240) { 
-                 accumulatorRef.current = 0;
-                 break;
-              }
+            const isParty = engineRef.current.world.party !== null;
+            const input = isParty ? readPartyInput(0) : readInput();
+            const result = engineRef.current.step(input, deltaTime, isParty ? readPartyInput(1) : NO_INPUT);
+            recorderRef.current?.record(input, result.ticks);
+            ghostRef.current?.syncTo(result.world.tick);
+            result.sounds.forEach(playSound);
+
+            if (result.scoreChanged && onScoreUpdateRef.current) onScoreUpdateRef.current(result.world.score);
+            if (result.gameOver || result.world.tick - lastProgressTickRef.current >= PROGRESS_TICKS) {
+                lastProgressTickRef.current = result.world.tick;
+                if (onProgressRef.current) onProgressRef.current(result.world.tick, result.world.height);
+                if (isParty && onPartyUpdateRef.current) onPartyUpdateRef.current(getPartyResult(result.world));
+                if (ghostRef.current && onGhostUpdateRef.current) {
+                    onGhostUpdateRef.current(getGhostLead(result.world, ghostRef.current));
+                }
+                if (raceRef.current) {
+                    const { world } = result;
+                    const p = world.players[0];
+                    raceRef.current.sendPosition({
+                        tick: world.tick, x: p.x, y: p.y, vx: p.vx, height: world.height, score: toDisplayScore(world.score)
+                    });
+                }
+            }
+            if (result.gameOver && isParty && onPartyOverRef.current) {
+                onPartyOverRef.current(getPartyResult(result.world));
+            }
+            if (result.gameOver && onGameOverRef.current && recorderRef.current) {
+                const world = result.world;
+                onGameOverRef.current(recorderRef.current.finish(world), world.height, GAME_MODES[world.mode].result(world));
             }
         }
+      } else if (gameState === GameState.REPLAY && replayPlayerRef.current && !isReplayPaused) {
+        const player = replayPlayerRef.current;
+        player.advance(deltaTime * replaySpeed).forEach(playSound);
+        setReplayTick(player.world.tick);
+        if (player.isFinished) setIsReplayPaused(true);
       }
       
       draw();
@@ -452,412 +595,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [gameState, characterType]);
-
-  const createParticles = (x: number, y: number, color: string) => {
-    for (let i = 0; i < 6; i++) {
-      particlesRef.current.push({
-        x,
-        y,
-        vx: (Math.random() - 0.5) * 6,
-        vy: (Math.random() - 0.5) * 6,
-        life: 1.0,
-        color
-      });
-    }
-  };
-
-  const createRipple = (x: number, y: number) => {
-    ripplesRef.current.push({
-      x,
-      y,
-      life: 1.0,
-      maxRadius: 30
-    });
-  };
-
-  const createPowerUpVisuals = (x: number, y: number, type: PowerUpType) => {
-    switch (type) {
-      case PowerUpType.SHIELD:
-        // Radial burst
-        for (let i = 0; i < 24; i++) {
-          const angle = (Math.PI * 2 * i) / 24;
-          const speed = 3 + Math.random() * 2;
-          particlesRef.current.push({
-            x,
-            y,
-            vx: Math.cos(angle) * speed,
-            vy: Math.sin(angle) * speed,
-            life: 0.8,
-            color: COLORS.shield
-          });
-        }
-        break;
-      case PowerUpType.SCORE_MULTIPLIER:
-        // Fountain of gold
-        for (let i = 0; i < 20; i++) {
-           particlesRef.current.push({
-            x,
-            y,
-            vx: (Math.random() - 0.5) * 6,
-            vy: -Math.random() * 10,
-            life: 1.0,
-            color: COLORS.multiplier
-          });
-        }
-        break;
-      case PowerUpType.GIANT:
-        // Explosive growth particles
-        for (let i = 0; i < 30; i++) {
-           particlesRef.current.push({
-            x,
-            y,
-            vx: (Math.random() - 0.5) * 15,
-            vy: (Math.random() - 0.5) * 15,
-            life: 1.0,
-            color: COLORS.giant
-          });
-        }
-        break;
-      case PowerUpType.BOOSTER:
-        // Downward thrust explosion
-        for (let i = 0; i < 30; i++) {
-           particlesRef.current.push({
-            x,
-            y: y + 20, 
-            vx: (Math.random() - 0.5) * 12,
-            vy: Math.random() * 12,
-            life: 0.8,
-            color: Math.random() > 0.5 ? COLORS.booster : '#FBBF24'
-          });
-        }
-        break;
-    }
-  };
-
-  const activatePowerUp = (type: PowerUpType) => {
-      const p = playerRef.current;
-      const now = performance.now();
-      
-      createPowerUpVisuals(p.x + p.width / 2, p.y + p.height / 2, type);
-
-      if (type === PowerUpType.SHIELD) {
-          playSound('collect_shield');
-          p.shieldCount = 1
-      } else if (type === PowerUpType.SCORE_MULTIPLIER) {
-          playSound('collect_star');
-          let duration = POWERUP_DURATION;
-          if (p.scoreMultiplierActive && p.scoreMultiplierEndTime && p.scoreMultiplierEndTime > now) {
-              duration += (p.scoreMultiplierEndTime - now);
-          }
-          p.scoreMultiplierActive = true;
-          p.scoreMultiplierEndTime = now + duration;
-          
-          if (multiplierTimerRef.current) clearTimeout(multiplierTimerRef.current);
-          multiplierTimerRef.current = window.setTimeout(() => {
-              playerRef.current.scoreMultiplierActive = false;
-          }, duration);
-      } else if (type === PowerUpType.GIANT) {
-          playSound('collect_mushroom');
-          let duration = 5000; // 5초
-          if (p.isGiant && p.giantEndTime && p.giantEndTime > now) {
-              duration += (p.giantEndTime - now);
-          }
-          if (!p.isGiant) {
-              const oldW = p.width;
-              const oldH = p.height;
-              p.width = PLAYER_SIZE * 2.0; 
-              p.height = PLAYER_SIZE * 2.0;
-              p.y -= (p.height - oldH); 
-              p.x -= (p.width - oldW) / 2;
-          }
-          p.isGiant = true;
-          p.giantEndTime = now + duration;
-
-          if (giantTimerRef.current) clearTimeout(giantTimerRef.current);
-          giantTimerRef.current = window.setTimeout(() => {
-             const curr = playerRef.current;
-             curr.isGiant = false;
-             const shrinkAmount = curr.height - PLAYER_SIZE;
-             curr.y += shrinkAmount; 
-             curr.x += (curr.width - PLAYER_SIZE) / 2;
-             curr.width = PLAYER_SIZE;
-             curr.height = PLAYER_SIZE;
-          }, duration);
-      } else if (type === PowerUpType.BOOSTER) {
-          playSound('collect_rocket');
-          let duration = 3000;
-          if (p.isBoosting && p.boosterEndTime && p.boosterEndTime > now) {
-              duration += (p.boosterEndTime - now);
-          }
-          p.isBoosting = true;
-          p.boosterEndTime = now + duration;
-          
-          if (boosterTimerRef.current) clearTimeout(boosterTimerRef.current);
-          boosterTimerRef.current = window.setTimeout(() => {
-             playerRef.current.isBoosting = false;
-          }, duration); 
-      }
-  };
-
-  const updatePhysics = () => {
-    const player = playerRef.current;
-    const platforms = platformsRef.current;
-    const currentScore = scoreRef.current;
-
-    // Moving Platforms
-    platforms.forEach(p => {
-      if (p.isMoving && p.moveSpeed && p.initialX !== undefined && p.moveRange !== undefined) {
-        p.x += p.moveSpeed;
-        if (p.x > p.initialX + p.moveRange || p.x < p.initialX - p.moveRange) p.moveSpeed = -p.moveSpeed;
-        if (p.x < 0) { p.x = 0; p.moveSpeed = Math.abs(p.moveSpeed); }
-        if (p.x + p.width > CANVAS_WIDTH) { p.x = CANVAS_WIDTH - p.width; p.moveSpeed = -Math.abs(p.moveSpeed); }
-      }
-    });
-
-    // Player Movement - use Character Stats
-    if (keysPressed.current['ArrowLeft'] || keysPressed.current['KeyA']) player.vx -= player.moveSpeed;
-    if (keysPressed.current['ArrowRight'] || keysPressed.current['KeyD']) player.vx += player.moveSpeed;
-
-    player.vx *= FRICTION;
-    player.x += player.vx;
-    
-    if (player.x < 0) {
-        player.x = 0;
-        player.vx = 0;
-    }
-    if (player.x + player.width > CANVAS_WIDTH) {
-        player.x = CANVAS_WIDTH - player.width;
-        player.vx = 0;
-    }
-
-    // Physics Update
-    if (player.isBoosting) {
-        player.vy = -12; 
-        // Booster particles
-        if (Math.random() > 0.5) {
-            particlesRef.current.push({
-                x: player.x + player.width / 2 + (Math.random() - 0.5) * 10,
-                y: player.y + player.height,
-                vx: (Math.random() - 0.5) * 2,
-                vy: Math.random() * 5 + 2,
-                life: 0.5,
-                color: '#EF4444' 
-            });
-            particlesRef.current.push({
-                x: player.x + player.width / 2 + (Math.random() - 0.5) * 6,
-                y: player.y + player.height,
-                vx: (Math.random() - 0.5) * 1,
-                vy: Math.random() * 5 + 2,
-                life: 0.3,
-                color: '#FBBF24' 
-            });
-        }
-    } else {
-        player.vy += player.gravity;
-    }
-    
-    player.y += player.vy;
-
-    // Platform Interactions
-    platforms.forEach(plat => {
-      // 1. Landing collision (Only when not boosting and falling)
-      if (player.vy > 0 && !player.isBoosting) {
-        const playerLeft = player.x + 5;
-        const playerRight = player.x + player.width - 5;
-        const platLeft = plat.x;
-        const platRight = plat.x + plat.width;
-
-        if (
-          playerRight > platLeft && 
-          playerLeft < platRight &&
-          player.y + player.height >= plat.y &&
-          player.y + player.height <= plat.y + 20 
-        ) {
-          // Standard bounce
-          player.vy = player.baseJumpStrength; 
-          player.y = plat.y - player.height;
-          player.vx *= 0.5; 
-          
-          playSound('jump');
-          
-          const centerX = player.x + player.width / 2;
-          const bottomY = player.y + player.height;
-          createRipple(centerX, bottomY);
-          
-          for(let i=0; i<4; i++) {
-              particlesRef.current.push({
-                  x: centerX + (Math.random() - 0.5) * player.width,
-                  y: bottomY,
-                  vx: (Math.random() - 0.5) * 4,
-                  vy: -Math.random() * 2,
-                  life: 0.8,
-                  color: '#CBD5E1'
-              });
-          }
-        }
-      }
-
-      // 2. PowerUp Collection (Separate check, always active, wider radius while boosting)
-      if (plat.powerUp) {
-            // 🚀 부스터 중에는 부스터가 아닌 아이템은 획득 금지
-    if (player.isBoosting && plat.powerUp !== PowerUpType.BOOSTER) {
-        return; 
-    }
-          const puX = plat.x + plat.width / 2;
-          const puY = plat.y - POWERUP_SIZE;
-          const dist = Math.hypot((player.x + player.width/2) - puX, (player.y + player.height/2) - puY);
-          
-          // Increased radius for easier collection while boosting
-          const collectionRadius = player.width * (player.isBoosting ? 1.5 : 1.0);
-
-          if (dist < collectionRadius) { 
-              activatePowerUp(plat.powerUp);
-              plat.powerUp = undefined; 
-              createParticles(puX, puY, COLORS.yellowBody);
-          }
-      }
-    });
-
-    // Scrolling
-    if (player.y < CANVAS_HEIGHT / 2) {
-      const diff = CANVAS_HEIGHT / 2 - player.y;
-      player.y = CANVAS_HEIGHT / 2;
-      platforms.forEach(p => p.y += diff);
-      ripplesRef.current.forEach(r => r.y += diff);
-      particlesRef.current.forEach(p => p.y += diff);
-      
-      const multiplier = player.scoreMultiplierActive ? 2 : 1;
-      
-      // Calculate Score Gain based on Tier
-      const tier = getCurrentTier(scoreRef.current);
-      const gainedScore = Math.floor(diff * multiplier * tier.multiplier);
-      scoreRef.current += gainedScore;
-      
-      if (onScoreUpdateRef.current) onScoreUpdateRef.current(scoreRef.current);
-
-      platformsRef.current = platforms.filter(p => p.y < CANVAS_HEIGHT);
-      
-      const lastPlat = platformsRef.current[platformsRef.current.length - 1];
-      if (lastPlat && lastPlat.y > 70) { 
-        // Generation Logic
-        const gapY = Math.random() * 50 + 60;
-        const y = lastPlat.y - gapY;
-        
-        let newWidth = PLATFORM_WIDTH;
-
-       // ⭐ 난이도 랜덤 스케일 (0.8 ~ 1.2)
-       const randomDifficulty = 0.8 + Math.random() * 0.4;
-
-       // ⭐ 발판 폭에 적용
-       newWidth = newWidth * randomDifficulty;
-
-        
-        if (currentScore > 500) {
-           const shrinkFactor = Math.min((currentScore - 500) / 5000, 0.5);
-           newWidth = Math.max(PLATFORM_WIDTH * (1 - shrinkFactor), 45);
-        }
-
-        const minX = Math.max(0, lastPlat.x - 200);
-        const maxX = Math.min(CANVAS_WIDTH - newWidth, lastPlat.x + 200);
-        let x = Math.max(0, Math.min(Math.random() * (maxX - minX) + minX, CANVAS_WIDTH - newWidth));
-
-        // Moving Platform Chance
-        let isMoving = false;
-        let moveSpeed = 0;
-        let moveRange = 0;
-        let initialX = x;
-
-        if (currentScore > 1500) {
-             const chance = currentScore > 3000 ? 0.6 : 0.3;
-             if (Math.random() < chance) {
-                 isMoving = true;
-                 const baseSpeed = currentScore > 3000 ? 2.5 : 1.5;
-                 moveSpeed = (Math.random() > 0.5 ? 1 : -1) * baseSpeed;
-                 moveRange = Math.random() * 50 + 50;
-                 if (initialX - moveRange < 0) initialX = moveRange;
-                 if (initialX + moveRange + newWidth > CANVAS_WIDTH) initialX = CANVAS_WIDTH - newWidth - moveRange;
-                 x = initialX;
-             }
-        }      
-        // ⭐ 이동형 발판 크기 랜덤 조정
-if (isMoving) {
-    const sizeRandom = 0.7 + Math.random() * 0.6;  // 0.7 ~ 1.3배
-    newWidth = newWidth * sizeRandom;
-
-    // 너무 작거나 큰 발판 방지
-    newWidth = Math.max(40, Math.min(newWidth, PLATFORM_WIDTH * 1.5));
-}
-
-          // ⭐ 이동형일 때만 폭 랜덤 적용
-if (isMoving) {
-    const sizeRandom = 0.7 + Math.random() * 0.6; // 0.7 ~ 1.3배
-    newWidth = newWidth * sizeRandom;
-
-    // 안전 제한
-    newWidth = Math.max(40, Math.min(newWidth, PLATFORM_WIDTH * 1.5));
-}
-        // PowerUp Spawn - Redistributed probabilities (0.25 each)
-        let powerUp: PowerUpType | undefined;
-        if (Math.random() < POWERUP_SPAWN_CHANCE) {
-            const rand = Math.random();
-            if (rand < 0.25) powerUp = PowerUpType.SHIELD;
-            else if (rand < 0.50) powerUp = PowerUpType.SCORE_MULTIPLIER;
-            else if (rand < 0.75) powerUp = PowerUpType.GIANT;
-            else powerUp = PowerUpType.BOOSTER;
-        }
-
-        // Determine Color based on current Score
-        const newTier = getCurrentTier(scoreRef.current);
-        
-        // 🎨 이동형 발판만 랜덤 색상 적용
-let platformColor, platformLightColor;
-
-if (isMoving) {
-    // 이동형 발판은 랜덤 색상
-    const randomTier = SCORE_TIERS[Math.floor(Math.random() * SCORE_TIERS.length)];
-    platformColor = randomTier.color;
-    platformLightColor = randomTier.light;
-} else {
-    // 일반 발판은 기존처럼 기본 티어 색상 유지
-    const baseTier = SCORE_TIERS[0];
-    platformColor = baseTier.color;
-    platformLightColor = baseTier.light;
-}
-
-
-        platformsRef.current.push({ 
-            x, y, width: newWidth, height: PLATFORM_HEIGHT, id: Math.random(),
-            isMoving, moveSpeed, moveRange, initialX, powerUp,
-            color: platformColor, lightColor: platformLightColor
-        });
-      }
-    }
-
-    if (player.y > CANVAS_HEIGHT) {
-       if (player.shieldCount > 0) {
-           player.shieldCount--; 
-           player.vy = player.baseJumpStrength * 1.5; // Super jump on shield usage
-           playSound('shield');
-           createParticles(player.x + player.width/2, player.y, COLORS.shield);
-       } else {
-           playSound('die');
-           if (onGameOverRef.current) onGameOverRef.current();
-       }
-    }
-
-    particlesRef.current.forEach(p => {
-      p.x += p.vx;
-      p.y += p.vy;
-      p.life -= 0.05;
-    });
-    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
-
-    ripplesRef.current.forEach(r => {
-        r.life -= 0.05;
-    });
-    ripplesRef.current = ripplesRef.current.filter(r => r.life > 0);
-  };
+  }, [gameState, characterType, isReplayPaused, replaySpeed]);
 
   const draw = () => {
     const canvas = canvasRef.current;
@@ -867,18 +605,40 @@ if (isMoving) {
 
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
+    const world = getWorld();
+
     // Platforms
-    platformsRef.current.forEach(p => {
-      // Use platform's assigned color
-      ctx.fillStyle = p.color || COLORS.platform;
-      ctx.beginPath();
-      ctx.roundRect(p.x, p.y, p.width, p.height, 5);
-      ctx.fill();
-      
-      ctx.fillStyle = p.lightColor || '#CBD5E1';
-      ctx.beginPath();
-      ctx.roundRect(p.x + 2, p.y + 2, p.width - 4, p.height / 2, 3);
-      ctx.fill();
+    world.platforms.forEach(p => {
+      const kind = getPlatformKind(p);
+
+      if (p.crumbleTicks !== undefined) {
+          drawCrumblingPlatform(ctx, p);
+      } else {
+          const alpha = getVanishAlpha(p, world.tick);
+          ctx.save();
+          ctx.globalAlpha = Math.max(alpha, 0.15);
+
+          // Use platform's assigned color (special kinds have their own)
+          const [base, light] = PLATFORM_KIND_COLORS[kind] ?? [p.color || COLORS.platform, p.lightColor || '#CBD5E1'];
+          ctx.fillStyle = base;
+          ctx.beginPath();
+          ctx.roundRect(p.x, p.y, p.width, p.height, 5);
+          if (alpha === 0) {
+              // Hidden: only an outline of where it will reappear
+              ctx.setLineDash([4, 4]);
+              ctx.strokeStyle = light;
+              ctx.stroke();
+          } else {
+              ctx.fill();
+              ctx.fillStyle = light;
+              ctx.beginPath();
+              ctx.roundRect(p.x + 2, p.y + 2, p.width - 4, p.height / 2, 3);
+              ctx.fill();
+          }
+          ctx.restore();
+
+          drawPlatformDetail(ctx, p, kind);
+      }
 
       if (p.isMoving) {
           ctx.fillStyle = '#334155';
@@ -890,24 +650,20 @@ if (isMoving) {
 
       // Draw PowerUp Item
       if (p.powerUp) {
-          const px = p.x + p.width / 2;
-          const py = p.y - 15;
+          const pos = getPowerUpPosition(p);
+          const px = pos.x;
+          const py = pos.y + 5;
           ctx.textAlign = 'center';
           ctx.font = '20px Fredoka';
-          let icon = '';
-          if (p.powerUp === PowerUpType.SHIELD) icon = '🛡️';
-          else if (p.powerUp === PowerUpType.SCORE_MULTIPLIER) icon = '⭐';
-          else if (p.powerUp === PowerUpType.GIANT) icon = '🍄';
-          else if (p.powerUp === PowerUpType.BOOSTER) icon = '🚀';
-
-          if (icon) {
-            ctx.fillText(icon, px, py + Math.sin(frameCountRef.current * 0.1) * 5);
-          }
+          ctx.fillText(POWER_UPS[p.powerUp].icon, px, py + Math.sin(world.tick * 0.1) * 5);
       }
     });
 
+    // Enemies
+    world.enemies.forEach(e => drawEnemy(ctx, e, world));
+
     // Ripples
-    ripplesRef.current.forEach(r => {
+    world.ripples.forEach(r => {
         ctx.strokeStyle = `rgba(255, 255, 255, ${r.life * 0.5})`;
         ctx.lineWidth = 2;
         ctx.beginPath();
@@ -917,7 +673,7 @@ if (isMoving) {
     });
 
     // Particles
-    particlesRef.current.forEach(p => {
+    world.particles.forEach(p => {
       ctx.fillStyle = p.color;
       ctx.globalAlpha = p.life;
       ctx.beginPath();
@@ -926,7 +682,31 @@ if (isMoving) {
       ctx.globalAlpha = 1;
     });
 
-    drawCharacter(ctx, playerRef.current);
+    // Ghost rival behind the live climbers; it disappears once its run is over
+    const ghostRun = ghostRef.current;
+    if (ghostRun && gameState !== GameState.REPLAY && !ghostRun.world.isGameOver) {
+      const ghostPlayer = { ...ghostRun.player, y: getGhostScreenY(world, ghostRun) };
+      drawCharacter(ctx, ghostPlayer, ghostRun.world, GHOST_ALPHA);
+      if (ghostLabel) drawGhostTag(ctx, ghostPlayer, ghostLabel);
+    }
+
+    // Live race opponents, moved by the difference in camera height like the ghost
+    if (raceRef.current && gameState !== GameState.REPLAY) {
+      raceRef.current.getRemoteRacers(performance.now()).forEach(r => {
+        const rival = { ...createPlayer(r.character), x: r.x, y: r.y - (r.height - world.height), vx: r.vx };
+        drawCharacter(ctx, rival, world, RIVAL_ALPHA);
+        drawGhostTag(ctx, rival, r.name);
+      });
+    }
+
+    world.players.forEach(p => {
+      if (!p.isDown) {
+        drawCharacter(ctx, p, world);
+      } else if (world.party && PARTY_MODES[world.party].revive && !world.isGameOver) {
+        drawReviveBubble(ctx, p, world);
+      }
+    });
+    if (world.party) drawPartyTags(ctx, world);
 
     // Ready Countdown Text
     const now = performance.now();
@@ -973,9 +753,217 @@ if (isMoving) {
     }
   };
   
-  const drawCharacter = (ctx: CanvasRenderingContext2D, p: Player) => {
+  const drawPlatformDetail = (ctx: CanvasRenderingContext2D, p: Platform, kind: PlatformKind) => {
+    if (kind === PlatformKind.CRUMBLING) {
+        // Cracks
+        ctx.strokeStyle = '#713F12';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(p.x + p.width * 0.3, p.y);
+        ctx.lineTo(p.x + p.width * 0.35, p.y + p.height * 0.5);
+        ctx.lineTo(p.x + p.width * 0.28, p.y + p.height);
+        ctx.moveTo(p.x + p.width * 0.7, p.y);
+        ctx.lineTo(p.x + p.width * 0.64, p.y + p.height * 0.6);
+        ctx.stroke();
+    } else if (kind === PlatformKind.SPRING) {
+        // Coil on top
+        const cx = p.x + p.width / 2;
+        ctx.strokeStyle = '#7C2D12';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(cx - 8, p.y);
+        for (let i = 1; i <= 4; i++) {
+            ctx.lineTo(cx + (i % 2 === 0 ? -8 : 8), p.y - i * 2.5);
+        }
+        ctx.stroke();
+        ctx.fillStyle = '#7C2D12';
+        ctx.fillRect(cx - 10, p.y - 12, 20, 3);
+    } else if (kind === PlatformKind.SPIKE) {
+        // Row of spikes
+        const count = Math.max(3, Math.floor(p.width / 12));
+        const w = p.width / count;
+        ctx.fillStyle = COLORS.spike;
+        ctx.beginPath();
+        for (let i = 0; i < count; i++) {
+            ctx.moveTo(p.x + i * w, p.y);
+            ctx.lineTo(p.x + i * w + w / 2, p.y - 8);
+            ctx.lineTo(p.x + (i + 1) * w, p.y);
+        }
+        ctx.fill();
+    } else if (kind === PlatformKind.VERTICAL) {
+        // Up/down arrows
+        ctx.fillStyle = '#334155';
+        ctx.beginPath();
+        ctx.moveTo(p.x + 5, p.y + 3);
+        ctx.lineTo(p.x + 2, p.y + 7);
+        ctx.lineTo(p.x + 8, p.y + 7);
+        ctx.moveTo(p.x + p.width - 5, p.y + p.height - 3);
+        ctx.lineTo(p.x + p.width - 8, p.y + p.height - 7);
+        ctx.lineTo(p.x + p.width - 2, p.y + p.height - 7);
+        ctx.fill();
+    }
+  };
+
+  const drawEnemy = (ctx: CanvasRenderingContext2D, e: Enemy, world: GameWorld) => {
+    const color = ENEMIES[e.kind].color;
+    const cx = e.x + e.width / 2;
+    const cy = e.y + e.height / 2;
+
+    if (e.kind === EnemyKind.DEBRIS) {
+        if (e.y + e.height < 0) {
+            // Still above the screen: warning marker at the top edge
+            if (Math.floor(world.tick / 8) % 2 === 0) {
+                ctx.fillStyle = COLORS.spike;
+                ctx.beginPath();
+                ctx.moveTo(cx, 4);
+                ctx.lineTo(cx - 7, 16);
+                ctx.lineTo(cx + 7, 16);
+                ctx.fill();
+            }
+            return;
+        }
+        // Jagged rock
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        for (let i = 0; i < 7; i++) {
+            const angle = (Math.PI * 2 * i) / 7 + world.tick * 0.05;
+            const r = e.width / 2 * (i % 2 === 0 ? 1 : 0.75);
+            ctx.lineTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+        }
+        ctx.closePath();
+        ctx.fill();
+        return;
+    }
+
+    if (e.kind === EnemyKind.FLOATER) {
+        // Spiky orb
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        for (let i = 0; i < 16; i++) {
+            const angle = (Math.PI * 2 * i) / 16;
+            const r = e.width / 2 * (i % 2 === 0 ? 1 : 0.8);
+            ctx.lineTo(cx + Math.cos(angle) * r, cy + Math.sin(angle) * r);
+        }
+        ctx.closePath();
+        ctx.fill();
+    } else {
+        // Beetle body with scuttling legs
+        const legSwing = Math.sin(world.tick * 0.4) * 3;
+        ctx.strokeStyle = '#431407';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        [0.25, 0.5, 0.75].forEach((f, i) => {
+            const lx = e.x + e.width * f + (i % 2 === 0 ? legSwing : -legSwing);
+            ctx.moveTo(lx, e.y + e.height * 0.6);
+            ctx.lineTo(lx, e.y + e.height);
+        });
+        ctx.stroke();
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.ellipse(cx, e.y + e.height * 0.45, e.width / 2, e.height * 0.45, 0, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    // Eyes looking where it is heading
+    const look = Math.sign(e.vx) * 2;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    ctx.arc(cx - 5, cy - 2, 3.5, 0, Math.PI * 2);
+    ctx.arc(cx + 5, cy - 2, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#000000';
+    ctx.beginPath();
+    ctx.arc(cx - 5 + look, cy - 2, 1.5, 0, Math.PI * 2);
+    ctx.arc(cx + 5 + look, cy - 2, 1.5, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  // Co-op: a fallen partner waits in a bubble until the other player touches it
+  const drawReviveBubble = (ctx: CanvasRenderingContext2D, p: Player, world: GameWorld) => {
+    const cx = p.x + p.width / 2;
+    const cy = p.y + p.height / 2;
+    const radius = PLAYER_SIZE * 0.9 + Math.sin(world.tick * 0.1) * 2;
+
+    ctx.save();
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = p.type === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody;
+    ctx.beginPath();
+    ctx.roundRect(p.x + 6, p.y + 6, p.width - 12, p.height - 12, 5);
+    ctx.fill();
+
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+    ctx.fill();
+
+    // Shine
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.beginPath();
+    ctx.arc(cx - radius * 0.4, cy - radius * 0.4, radius * 0.15, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText('HELP!', cx, cy - radius - 6);
+    ctx.restore();
+  };
+
+  // Two-player runs: 1P / 2P tag above each climber
+  const drawPartyTags = (ctx: CanvasRenderingContext2D, world: GameWorld) => {
+    ctx.save();
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    world.players.forEach((p, i) => {
+      if (p.isDown) return;
+      ctx.fillStyle = p.type === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody;
+      ctx.fillText(`${i + 1}P`, p.x + p.width / 2, p.y - 8);
+    });
+    ctx.restore();
+  };
+
+  // Ghost races: whose run the ghost is
+  const drawGhostTag = (ctx: CanvasRenderingContext2D, p: Player, label: string) => {
+    ctx.save();
+    ctx.globalAlpha = 0.7;
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#E2E8F0';
+    ctx.fillText(`👻 ${label}`, p.x + p.width / 2, p.y - 12);
+    ctx.restore();
+  };
+
+  // Broken halves drop and fade over CRUMBLE_TICKS
+  const drawCrumblingPlatform = (ctx: CanvasRenderingContext2D, p: Platform) => {
+    const progress = (p.crumbleTicks ?? 0) / CRUMBLE_TICKS;
+    if (progress >= 1) return;
+
+    const drop = progress * progress * 60;
+    const half = p.width / 2;
+    ctx.save();
+    ctx.globalAlpha = 1 - progress;
+    ctx.fillStyle = COLORS.crumbling;
+    [-1, 1].forEach((side, i) => {
+        ctx.save();
+        ctx.translate(p.x + half * i + half / 2 + side * progress * 10, p.y + p.height / 2 + drop);
+        ctx.rotate(side * progress * 0.6);
+        ctx.beginPath();
+        ctx.roundRect(-half / 2, -p.height / 2, half - 2, p.height, 4);
+        ctx.fill();
+        ctx.restore();
+    });
+    ctx.restore();
+  };
+
+  // opacity < 1 draws a ghost rival
+  const drawCharacter = (ctx: CanvasRenderingContext2D, p: Player, world: GameWorld, opacity = 1) => {
     const bodyColor = p.type === CharacterType.YELLOW ? COLORS.yellowBody : COLORS.blueBody;
-    const now = performance.now();
+    // Simulated time, so animations freeze with pause and follow replay speed
+    const now = world.time;
     
     ctx.save();
     ctx.translate(p.x, p.y);
@@ -983,23 +971,21 @@ if (isMoving) {
     // Blinking Warning Logic (Booster & Giant - Body Blink)
     let bodyAlpha = 1.0;
     
-    // Check Booster Warning (last 3s)
-    if (p.isBoosting && p.boosterEndTime) {
-        const timeLeft = p.boosterEndTime - now;
-        if (timeLeft < 3000 && timeLeft > 0) {
-            if (Math.floor(timeLeft / 100) % 2 === 0) bodyAlpha = 0.5;
-        }
+    const boosterTicks = getPowerUpTicks(p, PowerUpType.BOOSTER);
+    const giantTicks = getPowerUpTicks(p, PowerUpType.GIANT);
+    const multiplierTicks = getPowerUpTicks(p, PowerUpType.SCORE_MULTIPLIER);
+
+    // Check Booster Warning (last 3s, blink every 6 ticks)
+    if (boosterTicks > 0 && boosterTicks < POWERUP_WARNING) {
+        if (Math.floor(boosterTicks / 6) % 2 === 0) bodyAlpha = 0.5;
     }
     
     // Check Giant Warning (last 3s)
-    if (p.isGiant && p.giantEndTime) {
-        const timeLeft = p.giantEndTime - now;
-        if (timeLeft < 3000 && timeLeft > 0) {
-            if (Math.floor(timeLeft / 100) % 2 === 0) bodyAlpha = 0.5;
-        }
+    if (giantTicks > 0 && giantTicks < POWERUP_WARNING) {
+        if (Math.floor(giantTicks / 6) % 2 === 0) bodyAlpha = 0.5;
     }
 
-    ctx.globalAlpha = bodyAlpha;
+    ctx.globalAlpha = bodyAlpha * opacity;
 
     // PowerUp Auras
     if (p.shieldCount > 0) {
@@ -1011,24 +997,75 @@ if (isMoving) {
         ctx.fillStyle = COLORS.shield + '33'; 
         ctx.fill();
     }
-    if (p.scoreMultiplierActive) {
-        let textColor = COLORS.multiplier;
+    if (multiplierTicks > 0) {
+        let textColor = POWER_UPS[PowerUpType.SCORE_MULTIPLIER].color;
         // Warning flash for Multiplier (Last 3s)
-        if (p.scoreMultiplierEndTime && p.scoreMultiplierEndTime - now < 3000 && p.scoreMultiplierEndTime > now) {
-             if (Math.floor((p.scoreMultiplierEndTime - now) / 150) % 2 === 0) {
+        if (multiplierTicks < POWERUP_WARNING) {
+             if (Math.floor(multiplierTicks / 9) % 2 === 0) {
                  textColor = '#EF4444'; // Flash Red
              }
         }
 
         ctx.fillStyle = textColor;
         ctx.font = 'bold 12px sans-serif';
-        ctx.fillText('x2', p.width + 5, 0);
+        ctx.fillText(`x${getScoreMultiplier(p)}`, p.width + 5, 0);
     }
-    if (p.isBoosting) {
+    if (boosterTicks > 0) {
         // Rocket on back
         ctx.font = '20px Fredoka';
         ctx.textAlign = 'center';
-        ctx.fillText('🚀', p.width / 2, -10);
+        ctx.fillText(POWER_UPS[PowerUpType.BOOSTER].icon, p.width / 2, -10);
+    }
+    if (getPowerUpTicks(p, PowerUpType.MAGNET) > 0) {
+        // Rotating dashed field
+        ctx.save();
+        ctx.strokeStyle = POWER_UPS[PowerUpType.MAGNET].color;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 6]);
+        ctx.lineDashOffset = -world.tick * 0.5;
+        ctx.beginPath();
+        ctx.arc(p.width / 2, p.height / 2, p.width * 0.95, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.restore();
+    }
+    if (getPowerUpTicks(p, PowerUpType.SLOW_MO) > 0) {
+        // Clock face with a slowly sweeping hand
+        const slowColor = POWER_UPS[PowerUpType.SLOW_MO].color;
+        const radius = p.width * 0.7;
+        const angle = world.tick * 0.03;
+        ctx.save();
+        ctx.fillStyle = slowColor + '22';
+        ctx.strokeStyle = slowColor;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(p.width / 2, p.height / 2, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(p.width / 2, p.height / 2);
+        ctx.lineTo(p.width / 2 + Math.sin(angle) * radius, p.height / 2 - Math.cos(angle) * radius);
+        ctx.stroke();
+        ctx.restore();
+    }
+    if (p.springCharges > 0) {
+        // Coils under the feet and remaining charges
+        const springColor = POWER_UPS[PowerUpType.SPRING_SHOES].color;
+        ctx.save();
+        ctx.strokeStyle = springColor;
+        ctx.lineWidth = 2;
+        [p.width * 0.2, p.width * 0.8].forEach(footX => {
+            ctx.beginPath();
+            ctx.moveTo(footX - 4, p.height);
+            for (let i = 1; i <= 4; i++) {
+                ctx.lineTo(footX + (i % 2 === 0 ? -4 : 4), p.height + i * 2.5);
+            }
+            ctx.stroke();
+        });
+        ctx.fillStyle = springColor;
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'right';
+        ctx.fillText(`${p.springCharges}`, -5, 0);
+        ctx.restore();
     }
     
     ctx.strokeStyle = '#000000';
@@ -1036,10 +1073,11 @@ if (isMoving) {
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
 
-    const time = frameCountRef.current * 0.2;
+    const time = world.tick * 0.2;
     const isMoving = Math.abs(p.vx) > 0.1;
-    const legOffset = (isMoving && gameState === GameState.PLAYING) ? Math.sin(time) * 3 : 0;
-    const armOffset = (isMoving && gameState === GameState.PLAYING) ? Math.cos(time) * 5 : 0;
+    const isAnimating = gameState === GameState.PLAYING || gameState === GameState.REPLAY;
+    const legOffset = (isMoving && isAnimating) ? Math.sin(time) * 3 : 0;
+    const armOffset = (isMoving && isAnimating) ? Math.cos(time) * 5 : 0;
 
     // Legs
     ctx.beginPath();
@@ -1103,12 +1141,12 @@ if (isMoving) {
     ctx.fill();
 
     ctx.fillStyle = '#F472B6';
-    ctx.globalAlpha = 0.6;
+    ctx.globalAlpha = 0.6 * opacity;
     ctx.beginPath();
     ctx.arc(p.width * 0.2 + eyeXOffset, p.height * 0.5, 4, 0, Math.PI * 2);
     ctx.arc(p.width * 0.8 + eyeXOffset, p.height * 0.5, 4, 0, Math.PI * 2);
     ctx.fill();
-    ctx.globalAlpha = 1;
+    ctx.globalAlpha = opacity;
 
     // Smile
     ctx.strokeStyle = '#1F2937';
@@ -1141,29 +1179,26 @@ if (isMoving) {
     ctx.restore();
 
     // Draw countdown text for Booster
-    if (p.isBoosting && p.boosterEndTime) {
-        const timeLeft = p.boosterEndTime - now;
-        if (timeLeft < 3000 && timeLeft > 0) {
-             const secondsLeft = Math.ceil(timeLeft / 1000);
-             ctx.save();
-             ctx.fillStyle = '#EF4444'; 
-             ctx.strokeStyle = '#FFFFFF';
-             ctx.lineWidth = 2;
-             ctx.font = 'bold 24px sans-serif';
-             ctx.textAlign = 'center';
-             
-             // Add a scale pulse
-             const scale = 1 + Math.sin(now * 0.02) * 0.2;
-             ctx.translate(p.x + p.width / 2, p.y - 25);
-             ctx.scale(scale, scale);
-             
-             // Show WARNING if less than 1s, otherwise show number
-             const displayText = secondsLeft <= 1 ? "WARNING!" : secondsLeft.toString() + 's';
-             
-             ctx.strokeText(displayText, 0, 0);
-             ctx.fillText(displayText, 0, 0);
-             ctx.restore();
-        }
+    if (boosterTicks > 0 && boosterTicks < POWERUP_WARNING) {
+         const secondsLeft = Math.ceil(boosterTicks / TICKS_PER_SECOND);
+         ctx.save();
+         ctx.fillStyle = '#EF4444'; 
+         ctx.strokeStyle = '#FFFFFF';
+         ctx.lineWidth = 2;
+         ctx.font = 'bold 24px sans-serif';
+         ctx.textAlign = 'center';
+         
+         // Add a scale pulse
+         const scale = 1 + Math.sin(now * 0.02) * 0.2;
+         ctx.translate(p.x + p.width / 2, p.y - 25);
+         ctx.scale(scale, scale);
+         
+         // Show WARNING if less than 1s, otherwise show number
+         const displayText = secondsLeft <= 1 ? "WARNING!" : secondsLeft.toString() + 's';
+         
+         ctx.strokeText(displayText, 0, 0);
+         ctx.fillText(displayText, 0, 0);
+         ctx.restore();
     }
   };
 
@@ -1183,7 +1218,43 @@ if (isMoving) {
       
     
       
-      {gameState === GameState.PLAYING && (
+      {gameState === GameState.PLAYING && party && (
+        <>
+          {/* Two-player: a ◀ ▶ pair per player (Sparky left, Uni right) */}
+          {PARTY_KEYS.map((keys, slot) => (
+            <div key={slot} className={`fixed bottom-6 ${slot === 0 ? 'left-4' : 'right-4'} flex gap-2 z-50`}>
+              {[keys.left, keys.right].map(key => (
+                <button
+                  key={key}
+                  className="w-16 h-16 bg-white/20 hover:bg-white/30 active:bg-white/40 active:scale-95 backdrop-blur-md border-2 rounded-full flex items-center justify-center transition-all touch-none select-none shadow-lg"
+                  style={{ borderColor: slot === 0 ? COLORS.yellowBody : COLORS.blueBody }}
+                  onPointerDown={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    keysPressed.current[key] = true;
+                  }}
+                  onPointerUp={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    keysPressed.current[key] = false;
+                  }}
+                  onPointerLeave={() => {
+                    keysPressed.current[key] = false;
+                  }}
+                  onContextMenu={(e) => e.preventDefault()}
+                  aria-label={`${slot + 1}P Move ${key === keys.left ? 'Left' : 'Right'}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-8 h-8 text-white">
+                    <path strokeLinecap="round" strokeLinejoin="round" d={key === keys.left ? "M15.75 19.5 8.25 12l7.5-7.5" : "m8.25 4.5 7.5 7.5-7.5 7.5"} />
+                  </svg>
+                </button>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+
+      {gameState === GameState.PLAYING && !party && (
         <>
           {/* Left Button - Fixed position relative to viewport or safely absolute */}
           <button
@@ -1234,6 +1305,56 @@ if (isMoving) {
           </button>
         </>
       )}
+
+      {/* Replay Controls */}
+      {gameState === GameState.REPLAY && replayPlayerRef.current && (
+        <div className="absolute bottom-3 left-3 right-3 z-40 bg-slate-900/90 border border-slate-700 rounded-xl p-3 backdrop-blur-md flex flex-col gap-2">
+          <div className="flex items-center justify-between text-xs text-slate-400 font-mono">
+            <span className="text-red-400 font-bold tracking-widest">● REPLAY</span>
+            <span>
+              {(replayTick * FIXED_TIMESTEP / 1000).toFixed(1)}s / {(replayPlayerRef.current.totalTicks * FIXED_TIMESTEP / 1000).toFixed(1)}s
+            </span>
+            <span className="text-white font-bold">{Math.floor(getWorld().score / 10)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={replayPlayerRef.current.totalTicks}
+            value={replayTick}
+            onChange={(e) => seekReplay(Number(e.target.value))}
+            className="w-full accent-blue-500"
+            aria-label="Seek Replay"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                // Restart from the top when pressing play at the end
+                if (isReplayPaused && replayPlayerRef.current?.isFinished) seekReplay(0);
+                setIsReplayPaused(!isReplayPaused);
+              }}
+              className="w-10 h-8 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-bold"
+              aria-label={isReplayPaused ? "Play Replay" : "Pause Replay"}
+            >
+              {isReplayPaused ? '▶' : '❚❚'}
+            </button>
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => setReplaySpeed(speed)}
+                className={`px-3 h-8 rounded-lg font-bold text-sm transition-colors ${replaySpeed === speed ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+            <button
+              onClick={onExitReplay}
+              className="ml-auto px-3 h-8 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 font-bold text-sm"
+            >
+              닫기
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
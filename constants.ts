@@ -7,17 +7,65 @@ export const JUMP_STRENGTH = -14;
 export const MOVE_SPEED = 5;
 export const FRICTION = 0.8;
 
+// Simulation Timing
+export const TICKS_PER_SECOND = 60;
+export const FIXED_TIMESTEP = 1000 / TICKS_PER_SECOND; // Target exactly 60 physics updates per second
+export const MAX_STEPS_PER_FRAME = 240;  // Drop accumulated time beyond this to avoid spiraling
+
+// Game Modes
+export const PIXELS_PER_METER = 10;                       // Height shown in the HUD and stats
+export const TIME_ATTACK_DURATION = 60 * TICKS_PER_SECOND; // Time Attack: climb as high as possible
+export const SPRINT_TARGET_HEIGHT = 500 * PIXELS_PER_METER; // Sprint: reach this height as fast as possible
+
+// Local Two-Player
+export const PARTY_START_OFFSET = 45;                     // Each player starts this far from the centre
+export const REVIVE_BUBBLE_Y = CANVAS_HEIGHT * 0.3;       // Co-op: where a fallen partner floats
+export const REVIVE_SWAY = 110;                           // Bubble drifts this far either side
+export const REVIVE_SWAY_PERIOD = 314;                    // Ticks for one full sway
+
 export const PLAYER_SIZE = 40;
 export const PLATFORM_WIDTH = 105; 
 export const PLATFORM_HEIGHT = 15;
 export const PLATFORM_GAP_MIN = 60; 
 export const PLATFORM_GAP_MAX = 110;
 
+// Leaderboard
+export const MAX_NAME_LENGTH = 10;
+
+// Platform Kinds
+export const CRUMBLE_TICKS = 30;                          // Break animation length
+export const VANISH_CYCLE = 4 * TICKS_PER_SECOND;          // Full solid + hidden loop
+export const VANISH_SOLID = 2.5 * TICKS_PER_SECOND;        // Solid part of the loop
+export const VANISH_FADE = 0.5 * TICKS_PER_SECOND;         // Fade in/out at either end of the solid part
+export const SPRING_PAD_BOOST = 1.6;                       // Jump strength multiplier on spring pads
+export const VERTICAL_MOVE_SPEED = 1;                      // Pixels per tick
+
 // Power-Up Configuration
 export const POWERUP_SIZE = 20;
-export const POWERUP_DURATION = 10000; // 10 seconds for timed abilities
+// Durations are in simulation ticks so they freeze with the game and replay exactly
+export const POWERUP_DURATION = 10 * TICKS_PER_SECOND; // x2 Score
+export const GIANT_DURATION = 5 * TICKS_PER_SECOND;
+export const BOOSTER_DURATION = 3 * TICKS_PER_SECOND;
+export const MAGNET_DURATION = 8 * TICKS_PER_SECOND;
+export const SLOW_MO_DURATION = 4 * TICKS_PER_SECOND;
+export const POWERUP_WARNING = 3 * TICKS_PER_SECOND;   // HUD starts blinking this long before expiry
+
+export const MAGNET_RADIUS = 180;       // Items closer than this drift toward the player
+export const MAGNET_PULL_SPEED = 6;     // Pixels per tick
+export const SLOW_MO_SCALE = 0.5;       // Physics step multiplier while Slow-Mo is active
+export const SPRING_SHOES_CHARGES = 5;  // Boosted landings per pickup
+export const SPRING_SHOES_BOOST = 1.4;  // Jump strength multiplier for those landings
 export const POWERUP_SPAWN_CHANCE = 0.1; // 10% chance per platform
 
+// Enemies
+export const ENEMY_SIZE = 28;
+export const DEBRIS_SIZE = 22;
+export const CRITTER_SPEED = 1.2;     // Pixels per tick along its platform
+export const FLOATER_BOB = 12;        // Bob height in pixels
+export const FLOATER_BOB_PERIOD = 126; // Ticks for one full bob
+export const DEBRIS_FALL_SPEED = 4;   // Terminal fall speed, pixels per tick
+export const STOMP_SCORE = 100;       // Bonus engine score per stomp
+
 // Background Logo URL
 export const BACKGROUND_LOGO_URL = '';
 
@@ -38,16 +86,40 @@ export const COLORS = {
   shield: '#60A5FA',     // Blue-400
   multiplier: '#FBBF24', // Amber-400
   giant: '#10B981',      // Emerald-500
-  booster: '#EF4444'     // Red-500
+  booster: '#EF4444',    // Red-500
+  magnet: '#E879F9',     // Fuchsia-400
+  slowMo: '#A78BFA',     // Violet-400
+  spring: '#F97316',     // Orange-500
+
+  // Platform Kind Colors
+  crumbling: '#A16207',  // Yellow-700
+  crumblingLight: '#CA8A04',
+  springPad: '#FB923C',  // Orange-400
+  spike: '#DC2626',      // Red-600
+
+  // Enemy Colors
+  floater: '#C026D3',    // Fuchsia-600
+  critter: '#EA580C',    // Orange-600
+  debris: '#78716C'      // Stone-500
 };
 
 // Define Difficulty/Color Tiers based on Score
+// `kinds` is the chance of each special platform kind spawning once the tier is reached,
+// `enemies` the chance of each enemy kind spawning alongside a new platform
 export const SCORE_TIERS = [
-  { min: 0, color: '#94A3B8', light: '#CBD5E1', multiplier: 1 },      // Slate (Default)
-  { min: 1000, color: '#10B981', light: '#6EE7B7', multiplier: 1.5 }, // Emerald
-  { min: 2500, color: '#3B82F6', light: '#93C5FD', multiplier: 2 },   // Blue
-  { min: 5000, color: '#8B5CF6', light: '#C4B5FD', multiplier: 3 },   // Violet
-  { min: 8000, color: '#F43F5E', light: '#FDA4AF', multiplier: 5 },   // Rose (Hardest)
+  { min: 0, color: '#94A3B8', light: '#CBD5E1', multiplier: 1, kinds: {}, enemies: {} }, // Slate (Default)
+  { min: 1000, color: '#10B981', light: '#6EE7B7', multiplier: 1.5,               // Emerald
+    kinds: { CRUMBLING: 0.12, SPRING: 0.06 },
+    enemies: { CRITTER: 0.05 } },
+  { min: 2500, color: '#3B82F6', light: '#93C5FD', multiplier: 2,                 // Blue
+    kinds: { CRUMBLING: 0.12, SPRING: 0.06, VANISHING: 0.1, VERTICAL: 0.1 },
+    enemies: { CRITTER: 0.07, FLOATER: 0.05 } },
+  { min: 5000, color: '#8B5CF6', light: '#C4B5FD', multiplier: 3,                 // Violet
+    kinds: { CRUMBLING: 0.15, SPRING: 0.05, VANISHING: 0.12, VERTICAL: 0.12, SPIKE: 0.06 },
+    enemies: { CRITTER: 0.08, FLOATER: 0.07, DEBRIS: 0.05 } },
+  { min: 8000, color: '#F43F5E', light: '#FDA4AF', multiplier: 5,                 // Rose (Hardest)
+    kinds: { CRUMBLING: 0.18, SPRING: 0.05, VANISHING: 0.15, VERTICAL: 0.15, SPIKE: 0.1 },
+    enemies: { CRITTER: 0.1, FLOATER: 0.08, DEBRIS: 0.08 } },
 ];
 
 // Character Specific Stats
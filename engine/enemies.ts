@@ -0,0 +1,182 @@
+// enemies.ts
+// Floating hazards, patrolling critters and falling debris. Spawned next to new
+// platforms, moved and collided once per tick; stomping from above defeats the
+// stompable ones, any other contact costs a shield or knocks the player out.
+import { Enemy, EnemyKind, Platform, PlatformKind, Player, PowerUpType, GameSound } from '../types';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  ENEMY_SIZE,
+  DEBRIS_SIZE,
+  CRITTER_SPEED,
+  FLOATER_BOB,
+  FLOATER_BOB_PERIOD,
+  DEBRIS_FALL_SPEED,
+  STOMP_SCORE,
+  COLORS
+} from '../constants';
+import { GameWorld } from './gameEngine';
+import { hasPowerUp } from './powerUps';
+import { getPlatformKind, isPlatformSolid } from './platforms';
+import { knockOut } from './party';
+import { tickWave } from './tickWave';
+
+export interface EnemyDefinition {
+  kind: EnemyKind;
+  width: number;
+  height: number;
+  color: string;
+  stompable: boolean; // Landing on top defeats it instead of hurting
+}
+
+export const ENEMIES: Record<EnemyKind, EnemyDefinition> = {
+  [EnemyKind.FLOATER]: { kind: EnemyKind.FLOATER, width: ENEMY_SIZE, height: ENEMY_SIZE, color: COLORS.floater, stompable: true },
+  [EnemyKind.CRITTER]: { kind: EnemyKind.CRITTER, width: ENEMY_SIZE, height: ENEMY_SIZE * 0.7, color: COLORS.critter, stompable: true },
+  [EnemyKind.DEBRIS]: { kind: EnemyKind.DEBRIS, width: DEBRIS_SIZE, height: DEBRIS_SIZE, color: COLORS.debris, stompable: false },
+};
+
+type TierEnemies = Partial<Record<keyof typeof EnemyKind, number>>;
+
+const burst = (world: GameWorld, x: number, y: number, color: string) => {
+  for (let i = 0; i < 10; i++) {
+    world.particles.push({
+      x,
+      y,
+      vx: (Math.random() - 0.5) * 8,
+      vy: (Math.random() - 0.5) * 8,
+      life: 1.0,
+      color
+    });
+  }
+};
+
+// --- Spawning ---
+
+/**
+ * Rolls the tier's enemy chances for a freshly spawned platform. Critters need a
+ * plain, still platform to walk on; floaters hover in the gap below it; debris
+ * waits above it and drops once the camera reaches it.
+ */
+export const spawnEnemy = (world: GameWorld, plat: Platform, random: () => number, chances: TierEnemies) => {
+  const entries = Object.entries(chances) as [keyof typeof EnemyKind, number][];
+  if (entries.length === 0) return;
+
+  let roll = random();
+  let kind: EnemyKind | undefined;
+  for (const [name, chance] of entries) {
+    if (roll < chance) {
+      kind = EnemyKind[name];
+      break;
+    }
+    roll -= chance;
+  }
+  if (!kind) return;
+
+  const def = ENEMIES[kind];
+  const enemy: Enemy = {
+    id: world.nextEnemyId++,
+    kind,
+    x: random() * (CANVAS_WIDTH - def.width),
+    y: plat.y,
+    width: def.width,
+    height: def.height,
+    vx: 0,
+    vy: 0,
+  };
+
+  if (kind === EnemyKind.CRITTER) {
+    if (plat.isMoving || getPlatformKind(plat) !== PlatformKind.NORMAL || plat.width < def.width * 1.5) return;
+    enemy.x = plat.x + random() * (plat.width - def.width);
+    enemy.y = plat.y - def.height;
+    enemy.vx = (random() > 0.5 ? 1 : -1) * CRITTER_SPEED;
+    enemy.platformId = plat.id;
+  } else if (kind === EnemyKind.FLOATER) {
+    enemy.y = plat.y + 35;
+    enemy.baseY = enemy.y;
+    enemy.vx = (random() - 0.5) * 1.2;
+  } else {
+    enemy.y = plat.y - 80;
+  }
+
+  world.enemies.push(enemy);
+};
+
+// --- Movement ---
+
+export const tickEnemies = (world: GameWorld, dt: number) => {
+  world.enemies.forEach(e => {
+    if (e.kind === EnemyKind.CRITTER) {
+      const plat = e.platformId !== undefined ? world.platforms.find(p => p.id === e.platformId) : undefined;
+      if (plat && isPlatformSolid(plat, world.tick)) {
+        // Walk to the edge and turn around
+        e.x += e.vx * dt;
+        if (e.x < plat.x) { e.x = plat.x; e.vx = Math.abs(e.vx); }
+        if (e.x + e.width > plat.x + plat.width) { e.x = plat.x + plat.width - e.width; e.vx = -Math.abs(e.vx); }
+        e.y = plat.y - e.height;
+      } else {
+        // Its platform broke or vanished
+        e.platformId = undefined;
+        e.vy += 0.4 * dt;
+        e.y += e.vy * dt;
+      }
+    } else if (e.kind === EnemyKind.FLOATER) {
+      e.x += e.vx * dt;
+      if (e.x < 0 || e.x + e.width > CANVAS_WIDTH) e.vx = -e.vx;
+      // Offset by id so neighbouring floaters don't bob in step
+      e.y = (e.baseY ?? e.y) + tickWave(world.tick + e.id * 20, FLOATER_BOB_PERIOD) * FLOATER_BOB;
+    } else if (e.y + e.height > 0) {
+      e.vy = Math.min(e.vy + 0.2 * dt, DEBRIS_FALL_SPEED);
+      e.y += e.vy * dt;
+    }
+  });
+
+  world.enemies = world.enemies.filter(e => e.y < CANVAS_HEIGHT);
+};
+
+// --- Collision ---
+
+export const collideEnemies = (world: GameWorld, player: Player, dt: number, sounds: GameSound[]) => {
+  const defeated = new Set<number>();
+
+  for (const e of world.enemies) {
+    if (player.isDown) break;
+
+    const overlaps =
+      player.x + player.width - 4 > e.x &&
+      player.x + 4 < e.x + e.width &&
+      player.y + player.height > e.y &&
+      player.y < e.y + e.height;
+    if (!overlaps) continue;
+
+    const centerX = e.x + e.width / 2;
+    const centerY = e.y + e.height / 2;
+    const previousBottom = player.y + player.height - player.vy * dt;
+
+    if (ENEMIES[e.kind].stompable && player.vy > 0 && previousBottom <= e.y + 6) {
+      // Stomp: bounce off and earn a bonus
+      defeated.add(e.id);
+      player.vy = player.baseJumpStrength;
+      player.y = e.y - player.height;
+      world.score += STOMP_SCORE;
+      player.score += STOMP_SCORE;
+      sounds.push('stomp');
+      burst(world, centerX, centerY, ENEMIES[e.kind].color);
+    } else if (hasPowerUp(player, PowerUpType.BOOSTER)) {
+      // Rocketing straight through
+      defeated.add(e.id);
+      sounds.push('stomp');
+      burst(world, centerX, centerY, ENEMIES[e.kind].color);
+    } else if (player.shieldCount > 0) {
+      player.shieldCount--;
+      defeated.add(e.id);
+      sounds.push('shield');
+      burst(world, centerX, centerY, COLORS.shield);
+    } else {
+      knockOut(world, player, sounds);
+    }
+  }
+
+  if (defeated.size > 0) {
+    world.enemies = world.enemies.filter(e => !defeated.has(e.id));
+  }
+};
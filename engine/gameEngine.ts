@@ -0,0 +1,582 @@
+// gameEngine.ts
+// Headless simulation of the tower: no DOM, canvas or audio access, so it runs
+// the same in the browser, in Node tests, bots and server-side verification.
+import { Player, Platform, PlatformKind, Enemy, CharacterType, GameMode, PartyMode, Particle, PowerUpType, Ripple, GameSound } from '../types';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  PLAYER_SIZE,
+  PLATFORM_WIDTH,
+  PLATFORM_HEIGHT,
+  COLORS,
+  FRICTION,
+  POWERUP_SPAWN_CHANCE,
+  SPRING_SHOES_BOOST,
+  SPRING_PAD_BOOST,
+  SCORE_TIERS,
+  CHARACTER_SPECS,
+  FIXED_TIMESTEP,
+  MAX_STEPS_PER_FRAME,
+  PARTY_START_OFFSET
+} from '../constants';
+import { Rng, createRng, nextRandom, randomSeed } from './random';
+import {
+  activatePowerUp,
+  tickPowerUps,
+  rollPowerUp,
+  hasPowerUp,
+  canCollect,
+  getScoreMultiplier,
+  getPickupRadiusScale,
+  getPowerUpPosition,
+  getTimeScale
+} from './powerUps';
+import {
+  getPlatformKind,
+  rollPlatformKind,
+  initPlatformKind,
+  isPlatformSolid,
+  tickPlatformKind
+} from './platforms';
+import { spawnEnemy, tickEnemies, collideEnemies } from './enemies';
+import { RunEndReason, updateRunEnd } from './gameModes';
+import { PARTY_CHARACTERS, getCameraLeader, knockOut, updateRevives } from './party';
+
+export interface EngineInput {
+  left: boolean;
+  right: boolean;
+}
+
+export interface GameWorld {
+  players: Player[];   // One in solo runs; Sparky then Uni in local two-player runs
+  platforms: Platform[];
+  enemies: Enemy[];
+  particles: Particle[];
+  ripples: Ripple[];
+  score: number;
+  height: number;      // Pixels climbed (camera scroll), without score multipliers
+  seed: number;        // Seed the tower was generated from
+  rng: Rng;            // Gameplay randomness only; visual effects use Math.random
+  nextPlatformId: number;
+  nextEnemyId: number;
+  tick: number;        // Fixed steps simulated so far
+  time: number;        // Simulated milliseconds (tick * FIXED_TIMESTEP)
+  mode: GameMode;      // End condition and scoring (engine/gameModes.ts)
+  party: PartyMode | null; // Local two-player rules (engine/party.ts), null when solo
+  isGameOver: boolean;
+  endReason: RunEndReason | null;
+}
+
+export interface StepResult {
+  world: GameWorld;
+  sounds: GameSound[];
+  ticks: number;        // Fixed steps run during this call
+  scoreChanged: boolean;
+  gameOver: boolean;    // True only on the step the run ended
+}
+
+export interface GameEngine {
+  readonly world: GameWorld;
+  reset: (characterType: CharacterType, seed?: number, mode?: GameMode, party?: PartyMode | null) => void;
+  // partnerInput drives the second player in local two-player runs
+  step: (input: EngineInput, dt: number, partnerInput?: EngineInput) => StepResult;
+}
+
+export const NO_INPUT: EngineInput = { left: false, right: false };
+
+// Helper to get current score tier
+export const getCurrentTier = (currentScore: number) => {
+  for (let i = SCORE_TIERS.length - 1; i >= 0; i--) {
+    if (currentScore >= SCORE_TIERS[i].min) {
+      return SCORE_TIERS[i];
+    }
+  }
+  return SCORE_TIERS[0];
+};
+
+export const createPlayer = (characterType: CharacterType): Player => {
+  // Apply Character specific stats
+  const stats = CHARACTER_SPECS[characterType];
+
+  return {
+    x: CANVAS_WIDTH / 2 - PLAYER_SIZE / 2,
+    y: CANVAS_HEIGHT - 150,
+    vx: 0,
+    vy: 0,
+    width: PLAYER_SIZE,
+    height: PLAYER_SIZE,
+    type: characterType,
+    isJumping: false,
+    // Apply stats
+    baseJumpStrength: stats.jumpStrength,
+    gravity: stats.gravity,
+    moveSpeed: stats.moveSpeed,
+    // Power-ups
+    shieldCount: 0,
+    springCharges: 0,
+    powerUpTicks: {},
+    score: 0,
+    isDown: false,
+  };
+};
+
+// Two-player runs start side by side, Sparky on the left
+const createPlayers = (characterType: CharacterType, party: PartyMode | null): Player[] => {
+  if (!party) return [createPlayer(characterType)];
+  return PARTY_CHARACTERS.map((type, i) => {
+    const player = createPlayer(type);
+    player.x += (i === 0 ? -1 : 1) * PARTY_START_OFFSET;
+    return player;
+  });
+};
+
+export const createWorld = (
+  characterType: CharacterType,
+  seed: number = randomSeed(),
+  mode: GameMode = GameMode.ENDLESS,
+  party: PartyMode | null = null
+): GameWorld => {
+  const initialTier = SCORE_TIERS[0];
+  const startX = CANVAS_WIDTH / 2 - PLATFORM_WIDTH / 2;
+
+  return {
+    players: createPlayers(characterType, party),
+    // Initial platforms are static, so use default color
+    platforms: [
+      { x: startX, y: CANVAS_HEIGHT - 50, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 0, color: initialTier.color, lightColor: initialTier.light },
+      { x: startX, y: CANVAS_HEIGHT - 170, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 1, color: initialTier.color, lightColor: initialTier.light },
+      { x: startX - 60, y: CANVAS_HEIGHT - 290, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 2, color: initialTier.color, lightColor: initialTier.light },
+      { x: startX + 60, y: CANVAS_HEIGHT - 410, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 3, color: initialTier.color, lightColor: initialTier.light },
+      { x: startX, y: CANVAS_HEIGHT - 530, width: PLATFORM_WIDTH, height: PLATFORM_HEIGHT, id: 4, color: initialTier.color, lightColor: initialTier.light },
+    ],
+    enemies: [],
+    particles: [],
+    ripples: [],
+    score: 0,
+    height: 0,
+    seed,
+    rng: createRng(seed),
+    nextPlatformId: 5,
+    nextEnemyId: 0,
+    tick: 0,
+    time: 0,
+    mode,
+    party,
+    isGameOver: false,
+    endReason: null,
+  };
+};
+
+// --- Visual Effects (kept in the world so any renderer can draw them) ---
+
+const createParticles = (world: GameWorld, x: number, y: number, color: string) => {
+  for (let i = 0; i < 6; i++) {
+    world.particles.push({
+      x,
+      y,
+      vx: (Math.random() - 0.5) * 6,
+      vy: (Math.random() - 0.5) * 6,
+      life: 1.0,
+      color
+    });
+  }
+};
+
+const createRipple = (world: GameWorld, x: number, y: number) => {
+  world.ripples.push({
+    x,
+    y,
+    life: 1.0,
+    maxRadius: 30
+  });
+};
+
+// --- Platform Generation ---
+
+const spawnPlatform = (world: GameWorld, lastPlat: Platform, currentScore: number) => {
+  const random = () => nextRandom(world.rng);
+
+  const gapY = random() * 50 + 60;
+  const y = lastPlat.y - gapY;
+
+  let newWidth = PLATFORM_WIDTH;
+
+  // ⭐ 난이도 랜덤 스케일 (0.8 ~ 1.2)
+  const randomDifficulty = 0.8 + random() * 0.4;
+
+  // ⭐ 발판 폭에 적용
+  newWidth = newWidth * randomDifficulty;
+
+  if (currentScore > 500) {
+    const shrinkFactor = Math.min((currentScore - 500) / 5000, 0.5);
+    newWidth = Math.max(PLATFORM_WIDTH * (1 - shrinkFactor), 45);
+  }
+
+  const minX = Math.max(0, lastPlat.x - 200);
+  const maxX = Math.min(CANVAS_WIDTH - newWidth, lastPlat.x + 200);
+  let x = Math.max(0, Math.min(random() * (maxX - minX) + minX, CANVAS_WIDTH - newWidth));
+
+  // Moving Platform Chance
+  let isMoving = false;
+  let moveSpeed = 0;
+  let moveRange = 0;
+  let initialX = x;
+
+  if (currentScore > 1500) {
+    const chance = currentScore > 3000 ? 0.6 : 0.3;
+    if (random() < chance) {
+      isMoving = true;
+      const baseSpeed = currentScore > 3000 ? 2.5 : 1.5;
+      moveSpeed = (random() > 0.5 ? 1 : -1) * baseSpeed;
+      moveRange = random() * 50 + 50;
+      if (initialX - moveRange < 0) initialX = moveRange;
+      if (initialX + moveRange + newWidth > CANVAS_WIDTH) initialX = CANVAS_WIDTH - newWidth - moveRange;
+      x = initialX;
+    }
+  }
+
+  // ⭐ 이동형 발판 크기 랜덤 조정
+  if (isMoving) {
+    const sizeRandom = 0.7 + random() * 0.6;  // 0.7 ~ 1.3배
+    newWidth = newWidth * sizeRandom;
+
+    // 너무 작거나 큰 발판 방지
+    newWidth = Math.max(40, Math.min(newWidth, PLATFORM_WIDTH * 1.5));
+  }
+
+  // Special kinds unlock with the score tier (moving platforms stay plain)
+  const kind = isMoving
+    ? PlatformKind.NORMAL
+    : rollPlatformKind(random, getCurrentTier(currentScore).kinds, lastPlat);
+
+  // PowerUp Spawn - weighted by the registry's spawnWeight (never on spikes)
+  let powerUp: PowerUpType | undefined;
+  if (random() < POWERUP_SPAWN_CHANCE && kind !== PlatformKind.SPIKE) {
+    powerUp = rollPowerUp(random);
+  }
+
+  // 🎨 이동형 발판만 랜덤 색상 적용
+  let platformColor, platformLightColor;
+
+  if (isMoving) {
+    // 이동형 발판은 랜덤 색상
+    const randomTier = SCORE_TIERS[Math.floor(random() * SCORE_TIERS.length)];
+    platformColor = randomTier.color;
+    platformLightColor = randomTier.light;
+  } else {
+    // 일반 발판은 기존처럼 기본 티어 색상 유지
+    const baseTier = SCORE_TIERS[0];
+    platformColor = baseTier.color;
+    platformLightColor = baseTier.light;
+  }
+
+  const platform: Platform = {
+    x, y, width: newWidth, height: PLATFORM_HEIGHT, id: world.nextPlatformId++,
+    isMoving, moveSpeed, moveRange, initialX, powerUp,
+    color: platformColor, lightColor: platformLightColor
+  };
+  initPlatformKind(platform, kind, random);
+  world.platforms.push(platform);
+
+  // Enemies unlock with the score tier too
+  spawnEnemy(world, platform, random, getCurrentTier(currentScore).enemies);
+};
+
+// --- Simulation Step ---
+
+// Movement, physics, landings and pickups for one player still in the run
+const stepPlayer = (world: GameWorld, player: Player, input: EngineInput, dt: number, sounds: GameSound[]) => {
+  const platforms = world.platforms;
+
+  // Player Movement - use Character Stats
+  if (input.left) player.vx -= player.moveSpeed * dt;
+  if (input.right) player.vx += player.moveSpeed * dt;
+
+  // ** isn't exactly specified across JS engines; Slow-Mo's half step uses the exact sqrt
+  player.vx *= dt === 0.5 ? Math.sqrt(FRICTION) : FRICTION ** dt;
+  player.x += player.vx * dt;
+
+  if (player.x < 0) {
+    player.x = 0;
+    player.vx = 0;
+  }
+  if (player.x + player.width > CANVAS_WIDTH) {
+    player.x = CANVAS_WIDTH - player.width;
+    player.vx = 0;
+  }
+
+  // Physics Update
+  if (hasPowerUp(player, PowerUpType.BOOSTER)) {
+    player.vy = -12;
+    // Booster particles
+    if (Math.random() > 0.5) {
+      world.particles.push({
+        x: player.x + player.width / 2 + (Math.random() - 0.5) * 10,
+        y: player.y + player.height,
+        vx: (Math.random() - 0.5) * 2,
+        vy: Math.random() * 5 + 2,
+        life: 0.5,
+        color: '#EF4444'
+      });
+      world.particles.push({
+        x: player.x + player.width / 2 + (Math.random() - 0.5) * 6,
+        y: player.y + player.height,
+        vx: (Math.random() - 0.5) * 1,
+        vy: Math.random() * 5 + 2,
+        life: 0.3,
+        color: '#FBBF24'
+      });
+    }
+  } else {
+    player.vy += player.gravity * dt;
+  }
+
+  player.y += player.vy * dt;
+
+  // Platform Interactions
+  platforms.forEach(plat => {
+    if (player.isDown) return;
+
+    // 1. Landing collision (Only when not boosting and falling)
+    if (player.vy > 0 && !hasPowerUp(player, PowerUpType.BOOSTER) && isPlatformSolid(plat, world.tick)) {
+      const playerLeft = player.x + 5;
+      const playerRight = player.x + player.width - 5;
+      const platLeft = plat.x;
+      const platRight = plat.x + plat.width;
+
+      if (
+        playerRight > platLeft &&
+        playerLeft < platRight &&
+        player.y + player.height >= plat.y &&
+        player.y + player.height <= plat.y + 20
+      ) {
+        const kind = getPlatformKind(plat);
+
+        // Standard bounce (Spring Shoes spend a charge for a higher one)
+        player.vy = player.baseJumpStrength;
+        player.y = plat.y - player.height;
+        player.vx *= 0.5;
+
+        if (kind === PlatformKind.SPIKE) {
+          // Spikes eat a shield for a normal bounce, otherwise knock the player out
+          if (player.shieldCount > 0) {
+            player.shieldCount--;
+            sounds.push('shield');
+            createParticles(world, player.x + player.width / 2, plat.y, COLORS.shield);
+          } else {
+            knockOut(world, player, sounds);
+            createParticles(world, player.x + player.width / 2, plat.y, COLORS.spike);
+          }
+          return;
+        }
+
+        if (kind === PlatformKind.CRUMBLING) {
+          plat.crumbleTicks = 0;
+          createParticles(world, plat.x + plat.width / 2, plat.y + plat.height / 2, COLORS.crumblingLight);
+        }
+
+        if (kind === PlatformKind.SPRING) {
+          player.vy *= SPRING_PAD_BOOST;
+          sounds.push('spring');
+        } else if (player.springCharges > 0) {
+          player.springCharges--;
+          player.vy *= SPRING_SHOES_BOOST;
+          sounds.push('spring');
+        } else {
+          sounds.push('jump');
+        }
+
+        const centerX = player.x + player.width / 2;
+        const bottomY = player.y + player.height;
+        createRipple(world, centerX, bottomY);
+
+        for (let i = 0; i < 4; i++) {
+          world.particles.push({
+            x: centerX + (Math.random() - 0.5) * player.width,
+            y: bottomY,
+            vx: (Math.random() - 0.5) * 4,
+            vy: -Math.random() * 2,
+            life: 0.8,
+            color: '#CBD5E1'
+          });
+        }
+      }
+    }
+
+    // 2. PowerUp Collection (Separate check, always active, radius widened by active items)
+    if (plat.powerUp) {
+      if (!canCollect(player, plat.powerUp)) {
+        return;
+      }
+      const { x: puX, y: puY } = getPowerUpPosition(plat);
+      // Squared distances: Math.hypot isn't exactly specified across JS engines
+      const dx = (player.x + player.width / 2) - puX;
+      const dy = (player.y + player.height / 2) - puY;
+
+      const collectionRadius = player.width * getPickupRadiusScale(player);
+
+      if (dx * dx + dy * dy < collectionRadius * collectionRadius) {
+        activatePowerUp(world, player, plat.powerUp, sounds);
+        plat.powerUp = undefined;
+        createParticles(world, puX, puY, COLORS.yellowBody);
+      }
+    }
+  });
+};
+
+/**
+ * Advances the world by exactly one fixed timestep, mutating it in place.
+ * Returns the sounds that were triggered during the step.
+ */
+export const stepWorld = (world: GameWorld, input: EngineInput, partnerInput: EngineInput = NO_INPUT): GameSound[] => {
+  const sounds: GameSound[] = [];
+  if (world.isGameOver) return sounds;
+
+  const players = world.players;
+  const inputs = [input, partnerInput];
+  const platforms = world.platforms;
+  const currentScore = world.score;
+
+  world.tick++;
+  world.time = world.tick * FIXED_TIMESTEP;
+  tickPowerUps(world);
+
+  // Physics step multiplier (Slow-Mo slows everyone down); 1 leaves the step unchanged
+  const dt = Math.min(...players.filter(p => !p.isDown).map(getTimeScale), 1);
+
+  // Moving Platforms
+  platforms.forEach(p => {
+    if (p.isMoving && p.moveSpeed && p.initialX !== undefined && p.moveRange !== undefined) {
+      p.x += p.moveSpeed * dt;
+      if (p.x > p.initialX + p.moveRange || p.x < p.initialX - p.moveRange) p.moveSpeed = -p.moveSpeed;
+      if (p.x < 0) { p.x = 0; p.moveSpeed = Math.abs(p.moveSpeed); }
+      if (p.x + p.width > CANVAS_WIDTH) { p.x = CANVAS_WIDTH - p.width; p.moveSpeed = -Math.abs(p.moveSpeed); }
+    }
+    tickPlatformKind(p, dt);
+  });
+
+  players.forEach((player, i) => {
+    if (!player.isDown) stepPlayer(world, player, inputs[i] ?? NO_INPUT, dt, sounds);
+  });
+
+  // Enemies move, then get stomped or hurt each player
+  tickEnemies(world, dt);
+  players.forEach(player => collideEnemies(world, player, dt, sounds));
+
+  // Scrolling - the camera follows the highest player
+  const leader = getCameraLeader(world);
+  if (leader.y < CANVAS_HEIGHT / 2) {
+    const diff = CANVAS_HEIGHT / 2 - leader.y;
+    leader.y = CANVAS_HEIGHT / 2;
+    players.forEach(p => {
+      if (p !== leader) p.y += diff;
+    });
+    world.height += diff;
+    platforms.forEach(p => p.y += diff);
+    world.enemies.forEach(e => {
+      e.y += diff;
+      if (e.baseY !== undefined) e.baseY += diff;
+    });
+    world.ripples.forEach(r => r.y += diff);
+    world.particles.forEach(p => p.y += diff);
+
+    // Calculate Score Gain based on Tier (the run's score uses the leader's multiplier,
+    // each player's own score their own)
+    const tier = getCurrentTier(world.score);
+    const gainedScore = Math.floor(diff * getScoreMultiplier(leader) * tier.multiplier);
+    world.score += gainedScore;
+    players.forEach(p => {
+      if (!p.isDown) p.score += Math.floor(diff * getScoreMultiplier(p) * tier.multiplier);
+    });
+
+    world.platforms = platforms.filter(p => p.y < CANVAS_HEIGHT);
+
+    const lastPlat = world.platforms[world.platforms.length - 1];
+    if (lastPlat && lastPlat.y > 70) {
+      spawnPlatform(world, lastPlat, currentScore);
+    }
+  }
+
+  players.forEach(player => {
+    if (player.isDown || player.y <= CANVAS_HEIGHT) return;
+    if (player.shieldCount > 0) {
+      player.shieldCount--;
+      player.vy = player.baseJumpStrength * 1.5; // Super jump on shield usage
+      sounds.push('shield');
+      createParticles(world, player.x + player.width / 2, player.y, COLORS.shield);
+    } else {
+      knockOut(world, player, sounds);
+    }
+  });
+
+  updateRevives(world, sounds);
+  updateRunEnd(world, sounds);
+
+  world.particles.forEach(p => {
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    p.life -= 0.05 * dt;
+  });
+  world.particles = world.particles.filter(p => p.life > 0);
+
+  world.ripples.forEach(r => {
+    r.life -= 0.05 * dt;
+  });
+  world.ripples = world.ripples.filter(r => r.life > 0);
+
+  return sounds;
+};
+
+// --- Engine ---
+
+/**
+ * Wraps a world with a fixed-timestep accumulator so callers can feed it
+ * variable frame times: step(input, dt) runs as many fixed steps as dt covers.
+ */
+export const createGameEngine = (
+  characterType: CharacterType,
+  seed?: number,
+  mode?: GameMode,
+  party?: PartyMode | null
+): GameEngine => {
+  let world = createWorld(characterType, seed, mode, party);
+  let accumulator = 0;
+
+  return {
+    get world() {
+      return world;
+    },
+
+    reset: (type: CharacterType, seed?: number, mode?: GameMode, party?: PartyMode | null) => {
+      world = createWorld(type, seed, mode, party);
+      accumulator = 0;
+    },
+
+    step: (input: EngineInput, dt: number, partnerInput: EngineInput = NO_INPUT): StepResult => {
+      const startScore = world.score;
+      const wasOver = world.isGameOver;
+      const sounds: GameSound[] = [];
+      let ticks = 0;
+
+      accumulator += dt;
+      while (accumulator >= FIXED_TIMESTEP && !world.isGameOver) {
+        sounds.push(...stepWorld(world, input, partnerInput));
+        accumulator -= FIXED_TIMESTEP;
+
+        ticks++;
+        if (ticks > MAX_STEPS_PER_FRAME) {
+          accumulator = 0;
+          break;
+        }
+      }
+
+      return {
+        world,
+        sounds,
+        ticks,
+        scoreChanged: world.score !== startScore,
+        gameOver: !wasOver && world.isGameOver,
+      };
+    },
+  };
+};
@@ -0,0 +1,130 @@
+// gameModes.ts
+// Game mode registry: every mode declares when a run ends and how a finished run
+// is scored and ranked. The engine, HUD, leaderboards and verification read it.
+import { GameMode, GameSound } from '../types';
+import {
+  TICKS_PER_SECOND,
+  FIXED_TIMESTEP,
+  PIXELS_PER_METER,
+  TIME_ATTACK_DURATION,
+  SPRINT_TARGET_HEIGHT
+} from '../constants';
+import { GameWorld } from './gameEngine';
+
+export type RunEndReason =
+  | 'died'     // Fell or was hit with no shield left
+  | 'time_up'  // The mode's time limit ran out
+  | 'goal';    // Reached the mode's target height
+
+export type ResultUnit = 'points' | 'meters' | 'time';
+
+export interface GameModeDefinition {
+  mode: GameMode;
+  icon: string;
+  label: string;            // Korean name on the mode selector
+  title: string;            // English name on boards
+  description: string;
+  timeLimit?: number;       // Ticks; the run ends when they run out
+  targetHeight?: number;    // Pixels climbed; the run ends when reached
+  unit: ResultUnit;
+  ascending: boolean;       // Lower results rank higher (Sprint times)
+  // Ranked value of a run (null = doesn't count, e.g. a Sprint that fell short)
+  result: (world: GameWorld) => number | null;
+}
+
+// Same conversion the HUD applies to the engine score
+export const toDisplayScore = (engineScore: number) => Math.floor(engineScore / 10);
+
+export const toMeters = (height: number) => Math.floor(height / PIXELS_PER_METER);
+
+export const GAME_MODES: Record<GameMode, GameModeDefinition> = {
+  [GameMode.ENDLESS]: {
+    mode: GameMode.ENDLESS,
+    icon: '♾️',
+    label: '무한 모드',
+    title: 'Endless',
+    description: '떨어질 때까지 최대한 높이! 점수로 순위를 겨뤄요.',
+    unit: 'points',
+    ascending: false,
+    result: (world) => toDisplayScore(world.score),
+  },
+  [GameMode.TIME_ATTACK]: {
+    mode: GameMode.TIME_ATTACK,
+    icon: '⏱️',
+    label: '타임 어택',
+    title: 'Time Attack',
+    description: `${TIME_ATTACK_DURATION / TICKS_PER_SECOND}초 동안 가장 높이 올라간 높이(m)로 순위를 겨뤄요.`,
+    timeLimit: TIME_ATTACK_DURATION,
+    unit: 'meters',
+    ascending: false,
+    result: (world) => toMeters(world.height),
+  },
+  [GameMode.SPRINT]: {
+    mode: GameMode.SPRINT,
+    icon: '🏁',
+    label: '스프린트',
+    title: 'Sprint',
+    description: `${toMeters(SPRINT_TARGET_HEIGHT)}m에 가장 빨리 도착한 기록으로 순위를 겨뤄요. 떨어지면 기록 없음.`,
+    targetHeight: SPRINT_TARGET_HEIGHT,
+    unit: 'time',
+    ascending: true,
+    // Milliseconds of simulated time, so it replays exactly
+    result: (world) => (world.endReason === 'goal' ? Math.round(world.time) : null),
+  },
+};
+
+export const GAME_MODE_LIST = Object.values(GAME_MODES);
+
+export const getGameMode = (mode?: GameMode) => GAME_MODES[mode ?? GameMode.ENDLESS];
+
+// --- Engine Hooks ---
+
+// Called at the end of every step: ends the run on the mode's own condition
+export const updateRunEnd = (world: GameWorld, sounds: GameSound[]) => {
+  if (world.isGameOver) {
+    world.endReason = world.endReason ?? 'died';
+    return;
+  }
+
+  const definition = GAME_MODES[world.mode];
+  if (definition.timeLimit !== undefined && world.tick >= definition.timeLimit) {
+    world.endReason = 'time_up';
+  } else if (definition.targetHeight !== undefined && world.height >= definition.targetHeight) {
+    world.endReason = 'goal';
+  } else {
+    return;
+  }
+
+  world.isGameOver = true;
+  sounds.push('finish');
+};
+
+// HUD clock in milliseconds: counts down in timed modes, up everywhere else
+export const getClockTime = (mode: GameMode, tick: number) => {
+  const { timeLimit } = GAME_MODES[mode];
+  return (timeLimit === undefined ? tick : Math.max(0, timeLimit - tick)) * FIXED_TIMESTEP;
+};
+
+// --- Formatting ---
+
+// 83450 → "1:23.45"
+export const formatTime = (ms: number) => {
+  const totalCentis = Math.floor(ms / 10);
+  const minutes = Math.floor(totalCentis / 6000);
+  const seconds = Math.floor(totalCentis / 100) % 60;
+  const centis = totalCentis % 100;
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${String(centis).padStart(2, '0')}`;
+};
+
+export const formatResult = (mode: GameMode | undefined, value: number) => {
+  const { unit } = getGameMode(mode);
+  if (unit === 'time') return formatTime(value);
+  if (unit === 'meters') return `${value}m`;
+  return String(value);
+};
+
+// Sort helper for boards that mix in local runs: best result first
+export const compareResults = (mode: GameMode | undefined) =>
+  getGameMode(mode).ascending
+    ? (a: { score: number }, b: { score: number }) => a.score - b.score
+    : (a: { score: number }, b: { score: number }) => b.score - a.score;
@@ -0,0 +1,42 @@
+// ghost.ts
+// Ghost racing: a recorded run is played back in lockstep with the live run on
+// the same seed and mode and drawn as a translucent rival. The ghost has its own
+// world, so it never touches the live simulation.
+import { Player } from '../types';
+import { GameWorld } from './gameEngine';
+import { Replay, createReplayPlayer } from './replay';
+
+export interface Ghost {
+  readonly replay: Replay;
+  readonly world: GameWorld;
+  readonly player: Player;
+  readonly isFinished: boolean; // Fell, hit the mode's end condition or ran out of inputs
+  syncTo: (tick: number) => void;
+}
+
+export const createGhost = (replay: Replay): Ghost => {
+  const playback = createReplayPlayer(replay);
+
+  return {
+    replay,
+    get world() {
+      return playback.world;
+    },
+    get player() {
+      return playback.world.players[0];
+    },
+    get isFinished() {
+      return playback.isFinished;
+    },
+    // Catch up with the live run's tick; a finished ghost stays where it ended
+    syncTo: (tick: number) => playback.seek(tick),
+  };
+};
+
+// Pixels the live run has climbed past the ghost (negative = behind). Camera
+// heights never drop, so a ghost that already fell keeps the height it reached.
+export const getGhostLead = (world: GameWorld, ghost: Ghost) => world.height - ghost.world.height;
+
+// Both worlds share the tower, so only the camera scroll differs between them
+export const getGhostScreenY = (world: GameWorld, ghost: Ghost) =>
+  ghost.player.y - (ghost.world.height - world.height);
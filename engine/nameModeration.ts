@@ -0,0 +1,153 @@
+// nameModeration.ts
+// Leaderboard name checks shared by the new-record form, the ranking server and
+// the verification script: Unicode normalisation, invisible characters, emoji
+// spam, Korean/English profanity and look-alikes of other players' top names.
+import { MAX_NAME_LENGTH } from '../constants';
+
+// Submitted when the field is left empty; many players share it
+export const DEFAULT_PLAYER_NAME = '익명';
+
+export type NameRejection =
+  | 'empty'
+  | 'too_long'
+  | 'invisible'
+  | 'emoji_spam'
+  | 'no_letters'
+  | 'repeated'
+  | 'profanity'
+  | 'impersonation';
+
+export interface NameCheck {
+  ok: boolean;
+  name: string;            // Normalised name to store
+  reason?: NameRejection;
+  message?: string;        // Shown in the new-record form
+}
+
+export interface NameCheckOptions {
+  // Other players' leaderboard names that may not be copied or imitated
+  protectedNames?: string[];
+}
+
+export const NAME_REJECTION_MESSAGES: Record<NameRejection, string> = {
+  empty: '이름을 입력해 주세요.',
+  too_long: `이름은 ${MAX_NAME_LENGTH}자까지 쓸 수 있어요.`,
+  invisible: '보이지 않는 문자는 쓸 수 없어요.',
+  emoji_spam: '이모지는 2개까지만 쓸 수 있어요.',
+  no_letters: '글자나 숫자를 하나 이상 넣어 주세요.',
+  repeated: '같은 글자를 너무 많이 반복했어요.',
+  profanity: '쓸 수 없는 단어가 들어 있어요.',
+  impersonation: '상위 랭커와 같거나 비슷한 이름은 쓸 수 없어요.',
+};
+
+const MAX_EMOJI = 2;
+const MAX_REPEAT = 4;
+
+// Zero-width spaces/joiners, bidi controls, soft hyphen, Hangul fillers
+const INVISIBLE = /[\u00AD\u034F\u115F\u1160\u180E\u200B-\u200F\u202A-\u202E\u2060-\u206F\u3164\uFEFF\uFFA0]/gu;
+// Variation selectors (the "️" in ❤️) are dropped without complaint
+const VARIATION_SELECTOR = /[\uFE00-\uFE0F]/gu;
+const CONTROL = /\p{Cc}/gu;
+const EMOJI = /\p{Extended_Pictographic}/gu;
+const LETTER_OR_NUMBER = /[\p{L}\p{N}]/u;
+
+// ------------------------------------------------------
+// Word lists — matched against the skeleton (see below), so spacing, dots,
+// leetspeak and Cyrillic look-alikes don't slip past
+// ------------------------------------------------------
+const PROFANITY_EN = [
+  'fuck', 'fuk', 'shit', 'bitch', 'cunt', 'asshole', 'dickhead', 'pussy', 'whore', 'slut',
+  'bastard', 'retard', 'nigger', 'nigga', 'faggot', 'motherf',
+  // Korean swears typed on an English keyboard layout or romanised
+  'tlqkf', 'qudtls', 'sibal', 'ssibal', 'shibal',
+];
+
+const PROFANITY_KO = [
+  '시발', '씨발', '씨빨', '씨바', '시벌', '씨벌', '십새', '씹', '좆', '존나', '병신', '븅신', '빙신',
+  '개새끼', '개새', '새끼', '미친놈', '미친년', '지랄', '염병', '엠창', '느금', '니애미', '섹스',
+  // Initial-consonant abbreviations
+  'ㅅㅂ', 'ㅆㅂ', 'ㅂㅅ', 'ㅄ', 'ㅈㄹ', 'ㅁㅊ', 'ㅈㄴ',
+];
+
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l',
+  // Cyrillic / Greek / Armenian letters that render like Latin ones
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's',
+  'ս': 'u', 'օ': 'o',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+};
+
+// ------------------------------------------------------
+// Normalisation
+// ------------------------------------------------------
+
+// Hangul compatibility jamo (ㅋㅋ) are left alone: NFKC would turn them into
+// conjoining jamo that render glued together
+const COMPAT_JAMO = /[\u3131-\u318E]/;
+const nfkc = (text: string) =>
+  text.split(/([\u3131-\u318E]+)/).map((part) => (COMPAT_JAMO.test(part) ? part : part.normalize('NFKC'))).join('');
+
+// What gets stored: NFKC (full-width → ASCII, composed Hangul), no invisible or
+// control characters, single spaces
+export const normalizeName = (raw: string): string =>
+  nfkc(raw)
+    .replace(INVISIBLE, '')
+    .replace(VARIATION_SELECTOR, '')
+    .replace(CONTROL, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// What gets compared: lower-case, look-alikes folded, everything but letters dropped
+// ("F.u_c k", "ｆｕｃｋ" and "fսck" all reduce to "fuck")
+const toSkeleton = (name: string): string =>
+  [...normalizeName(name).toLowerCase()]
+    .map((char) => LOOKALIKES[char] ?? char)
+    .filter((char) => /\p{L}/u.test(char))
+    .join('');
+
+const BLOCKED_SKELETONS = [...PROFANITY_EN, ...PROFANITY_KO].map(toSkeleton);
+
+const hasLongRun = (name: string) => {
+  let run = 1;
+  const chars = [...name];
+  for (let i = 1; i < chars.length; i++) {
+    run = chars[i] === chars[i - 1] ? run + 1 : 1;
+    if (run > MAX_REPEAT) return true;
+  }
+  return false;
+};
+
+const reject = (reason: NameRejection, name = ''): NameCheck => ({
+  ok: false,
+  name,
+  reason,
+  message: NAME_REJECTION_MESSAGES[reason],
+});
+
+// ------------------------------------------------------
+// Validation pipeline
+// ------------------------------------------------------
+export const validateName = (raw: string, options: NameCheckOptions = {}): NameCheck => {
+  if (nfkc(raw).match(INVISIBLE) || raw.match(CONTROL)) return reject('invisible');
+
+  const name = normalizeName(raw);
+  if (!name) return reject('empty');
+  if (name.length > MAX_NAME_LENGTH) return reject('too_long', name);
+  if ((name.match(EMOJI)?.length ?? 0) > MAX_EMOJI) return reject('emoji_spam', name);
+  if (!LETTER_OR_NUMBER.test(name)) return reject('no_letters', name);
+  if (hasLongRun(name)) return reject('repeated', name);
+
+  const skeleton = toSkeleton(name);
+  if (BLOCKED_SKELETONS.some((word) => skeleton.includes(word))) return reject('profanity', name);
+
+  if (name !== DEFAULT_PLAYER_NAME && skeleton) {
+    const imitates = (options.protectedNames ?? [])
+      .filter((other) => other !== DEFAULT_PLAYER_NAME)
+      .some((other) => toSkeleton(other) === skeleton);
+    if (imitates) return reject('impersonation', name);
+  }
+
+  return { ok: true, name };
+};
@@ -0,0 +1,110 @@
+// party.ts
+// Local two-player runs: Sparky and Uni share one tower and one camera, which
+// follows whoever is higher. Versus ranks the two climbers by their own score;
+// co-op plays for a team score and a fallen partner floats in a bubble until
+// the other one touches it.
+import { CharacterType, GameSound, PartyMode, Player } from '../types';
+import { CANVAS_WIDTH, PLAYER_SIZE, REVIVE_BUBBLE_Y, REVIVE_SWAY, REVIVE_SWAY_PERIOD } from '../constants';
+import { GameWorld } from './gameEngine';
+import { tickWave } from './tickWave';
+import { toDisplayScore } from './gameModes';
+
+export interface PartyModeDefinition {
+  mode: PartyMode;
+  icon: string;
+  label: string;
+  description: string;
+  revive: boolean; // A fallen player can be brought back by the partner
+}
+
+export const PARTY_MODES: Record<PartyMode, PartyModeDefinition> = {
+  [PartyMode.VERSUS]: {
+    mode: PartyMode.VERSUS,
+    icon: '⚔️',
+    label: '대결',
+    description: '같은 타워에서 누가 더 높은 점수를 내는지 겨뤄요. 떨어지면 그대로 탈락!',
+    revive: false,
+  },
+  [PartyMode.COOP]: {
+    mode: PartyMode.COOP,
+    icon: '🤝',
+    label: '협동',
+    description: '함께 팀 점수를 올려요. 떨어진 친구는 방울에 닿아 구해 줄 수 있어요.',
+    revive: true,
+  },
+};
+
+export const PARTY_MODE_LIST = Object.values(PARTY_MODES);
+
+export const getPartyMode = (party: PartyMode) => PARTY_MODES[party];
+
+// Player order in the world; input slot i drives PARTY_CHARACTERS[i]
+export const PARTY_CHARACTERS = [CharacterType.YELLOW, CharacterType.BLUE];
+
+export interface PartyResult {
+  party: PartyMode;
+  height: number;       // Pixels climbed by the camera
+  teamScore: number;    // Display score (co-op)
+  scores: { character: CharacterType; score: number }[]; // Display scores (versus)
+  winner: CharacterType | null; // Versus only; null on a draw
+}
+
+// --- Engine Hooks ---
+
+// The camera follows the highest player still climbing (or the last one down)
+export const getCameraLeader = (world: GameWorld): Player => {
+  const climbing = world.players.filter(p => !p.isDown);
+  const candidates = climbing.length > 0 ? climbing : world.players;
+  return candidates.reduce((best, p) => (p.y < best.y ? p : best));
+};
+
+// A player fell or got hit with no shield left; the run ends once nobody is left
+export const knockOut = (world: GameWorld, player: Player, sounds: GameSound[]) => {
+  sounds.push('die');
+  player.isDown = true;
+  if (world.players.every(p => p.isDown)) world.isGameOver = true;
+};
+
+// Co-op: fallen players float in a bubble and come back when the partner touches it
+export const updateRevives = (world: GameWorld, sounds: GameSound[]) => {
+  if (!world.party || !PARTY_MODES[world.party].revive || world.isGameOver) return;
+
+  const rescuers = world.players.filter(p => !p.isDown);
+  world.players.forEach(p => {
+    if (!p.isDown) return;
+
+    p.vx = 0;
+    p.vy = 0;
+    p.x = CANVAS_WIDTH / 2 - p.width / 2 + tickWave(world.tick, REVIVE_SWAY_PERIOD) * REVIVE_SWAY;
+    p.y = REVIVE_BUBBLE_Y;
+
+    // Squared distances: Math.hypot isn't exactly specified across JS engines
+    const reach = (r: Player) => (r.width + PLAYER_SIZE) / 2;
+    const touched = rescuers.some(r => {
+      const dx = (r.x + r.width / 2) - (p.x + p.width / 2);
+      const dy = (r.y + r.height / 2) - (p.y + p.height / 2);
+      return dx * dx + dy * dy < reach(r) * reach(r);
+    });
+    if (!touched) return;
+
+    p.isDown = false;
+    p.vy = p.baseJumpStrength;
+    sounds.push('revive');
+  });
+};
+
+// --- Results ---
+
+export const getPartyResult = (world: GameWorld): PartyResult => {
+  const scores = world.players.map(p => ({ character: p.type, score: toDisplayScore(p.score) }));
+  const [first, second] = [...scores].sort((a, b) => b.score - a.score);
+  const isVersus = world.party === PartyMode.VERSUS;
+
+  return {
+    party: world.party,
+    height: world.height,
+    teamScore: toDisplayScore(world.score),
+    scores,
+    winner: isVersus && second && first.score > second.score ? first.character : null,
+  };
+};
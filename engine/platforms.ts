@@ -0,0 +1,85 @@
+// platforms.ts
+// Special platform kinds: which kind spawns at which height, and the per-tick
+// state (crumbling, vanishing, vertical movement) both the engine and renderer read.
+import { Platform, PlatformKind } from '../types';
+import {
+  CRUMBLE_TICKS,
+  VANISH_CYCLE,
+  VANISH_SOLID,
+  VANISH_FADE,
+  VERTICAL_MOVE_SPEED
+} from '../constants';
+
+type TierKinds = Partial<Record<keyof typeof PlatformKind, number>>;
+
+export const getPlatformKind = (plat: Platform) => plat.kind ?? PlatformKind.NORMAL;
+
+/**
+ * Picks a kind from the tier's chances. Spikes never follow spikes, so there is
+ * always somewhere safe to land within one jump.
+ */
+export const rollPlatformKind = (random: () => number, kinds: TierKinds, lastPlat: Platform): PlatformKind => {
+  const entries = Object.entries(kinds) as [keyof typeof PlatformKind, number][];
+  if (entries.length === 0) return PlatformKind.NORMAL;
+
+  let roll = random();
+  for (const [kind, chance] of entries) {
+    if (roll < chance) {
+      if (kind === PlatformKind.SPIKE && getPlatformKind(lastPlat) === PlatformKind.SPIKE) {
+        return PlatformKind.NORMAL;
+      }
+      return PlatformKind[kind];
+    }
+    roll -= chance;
+  }
+  return PlatformKind.NORMAL;
+};
+
+// Sets up the extra state a freshly spawned platform of this kind needs
+export const initPlatformKind = (plat: Platform, kind: PlatformKind, random: () => number) => {
+  if (kind === PlatformKind.NORMAL) return;
+  plat.kind = kind;
+
+  if (kind === PlatformKind.VERTICAL) {
+    plat.moveSpeedY = (random() > 0.5 ? 1 : -1) * VERTICAL_MOVE_SPEED;
+    plat.moveRangeY = random() * 30 + 40;
+    plat.offsetY = 0;
+  } else if (kind === PlatformKind.VANISHING) {
+    plat.vanishPhase = Math.floor(random() * VANISH_CYCLE);
+  }
+};
+
+// Where the platform is in its vanish loop: 1 fully solid, 0 gone
+export const getVanishAlpha = (plat: Platform, tick: number) => {
+  if (getPlatformKind(plat) !== PlatformKind.VANISHING) return 1;
+  const t = (tick + (plat.vanishPhase ?? 0)) % VANISH_CYCLE;
+  if (t >= VANISH_SOLID) return 0;
+  if (t < VANISH_FADE) return t / VANISH_FADE;
+  if (t > VANISH_SOLID - VANISH_FADE) return (VANISH_SOLID - t) / VANISH_FADE;
+  return 1;
+};
+
+// Whether the player can currently land on the platform
+export const isPlatformSolid = (plat: Platform, tick: number) => {
+  if (plat.crumbleTicks !== undefined) return false;
+  return getVanishAlpha(plat, tick) > 0;
+};
+
+export const isCrumbleFinished = (plat: Platform) =>
+  plat.crumbleTicks !== undefined && plat.crumbleTicks >= CRUMBLE_TICKS;
+
+// Advances vertical movers and break animations by one (time-scaled) tick
+export const tickPlatformKind = (plat: Platform, dt: number) => {
+  if (plat.crumbleTicks !== undefined) {
+    plat.crumbleTicks = Math.min(plat.crumbleTicks + dt, CRUMBLE_TICKS);
+  }
+
+  if (plat.moveSpeedY && plat.moveRangeY !== undefined && plat.offsetY !== undefined) {
+    const step = plat.moveSpeedY * dt;
+    plat.y += step;
+    plat.offsetY += step;
+    if (Math.abs(plat.offsetY) > plat.moveRangeY) {
+      plat.moveSpeedY = -Math.sign(plat.offsetY) * Math.abs(plat.moveSpeedY);
+    }
+  }
+};
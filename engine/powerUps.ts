@@ -0,0 +1,352 @@
+// powerUps.ts
+// Power-up registry: every item declares its look, sound, spawn weight, timing
+// and hooks here, and the engine, renderer and help modal all read from it.
+import { Player, Platform, PowerUpType, GameSound } from '../types';
+import {
+  COLORS,
+  PLAYER_SIZE,
+  POWERUP_SIZE,
+  TICKS_PER_SECOND,
+  POWERUP_DURATION,
+  GIANT_DURATION,
+  BOOSTER_DURATION,
+  MAGNET_DURATION,
+  MAGNET_RADIUS,
+  MAGNET_PULL_SPEED,
+  SLOW_MO_DURATION,
+  SLOW_MO_SCALE,
+  SPRING_SHOES_CHARGES,
+  SPRING_SHOES_BOOST
+} from '../constants';
+import { GameWorld } from './gameEngine';
+
+// How picking up an item that is already active affects its timer
+export type StackingRule =
+  | 'extend'   // Add the full duration to what is left
+  | 'refresh'  // Restart from the full duration
+  | 'ignore';  // Keep the current timer
+
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  icon: string;
+  color: string;
+  sound: GameSound;
+  spawnWeight: number;        // Relative chance among items that spawn on a platform
+  duration?: number;          // Ticks; instant items leave this out
+  stacking: StackingRule;
+  scoreMultiplier?: number;   // Applied to height score while active
+  exclusive?: boolean;        // While active, only the same item can be picked up
+  pickupRadiusScale?: number; // Widens the pickup radius while active
+  timeScale?: number;         // Scales the physics step while active
+  name: string;               // Help modal title
+  description: string;        // Help modal text
+  // Hooks get the player holding the item (two players can hold the same one)
+  onActivate?: (world: GameWorld, player: Player, wasActive: boolean) => void;
+  onExpire?: (world: GameWorld, player: Player) => void;
+  onTick?: (world: GameWorld, player: Player) => void; // Runs every tick while active
+  burst?: (world: GameWorld, x: number, y: number) => void; // Pickup particles
+}
+
+const seconds = (ticks: number) => ticks / TICKS_PER_SECOND;
+
+// Where a platform's item floats (a Magnet drags it off its resting spot)
+export const getPowerUpPosition = (plat: Platform) => ({
+  x: plat.x + plat.width / 2 + (plat.powerUpOffsetX ?? 0),
+  y: plat.y - POWERUP_SIZE + (plat.powerUpOffsetY ?? 0),
+});
+
+// Simple ring of particles used by the newer items
+const ringBurst = (world: GameWorld, x: number, y: number, color: string, count: number, speed: number) => {
+  for (let i = 0; i < count; i++) {
+    const angle = (Math.PI * 2 * i) / count;
+    world.particles.push({
+      x,
+      y,
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      life: 1.0,
+      color
+    });
+  }
+};
+
+// --- Registry ---
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  [PowerUpType.SHIELD]: {
+    type: PowerUpType.SHIELD,
+    icon: '🛡️',
+    color: COLORS.shield,
+    sound: 'collect_shield',
+    spawnWeight: 1,
+    stacking: 'ignore',
+    name: '보호막 (Shield)',
+    description: '추락 시 1회 부활합니다.',
+    onActivate: (_world, player) => {
+      player.shieldCount = 1;
+    },
+    burst: (world, x, y) => {
+      // Radial burst
+      for (let i = 0; i < 24; i++) {
+        const angle = (Math.PI * 2 * i) / 24;
+        const speed = 3 + Math.random() * 2;
+        world.particles.push({
+          x,
+          y,
+          vx: Math.cos(angle) * speed,
+          vy: Math.sin(angle) * speed,
+          life: 0.8,
+          color: COLORS.shield
+        });
+      }
+    },
+  },
+
+  [PowerUpType.SCORE_MULTIPLIER]: {
+    type: PowerUpType.SCORE_MULTIPLIER,
+    icon: '⭐',
+    color: COLORS.multiplier,
+    sound: 'collect_star',
+    spawnWeight: 1,
+    duration: POWERUP_DURATION,
+    stacking: 'extend',
+    scoreMultiplier: 2,
+    name: '점수 2배 (x2 Score)',
+    description: `${seconds(POWERUP_DURATION)}초간 획득 점수가 2배가 됩니다.`,
+    burst: (world, x, y) => {
+      // Fountain of gold
+      for (let i = 0; i < 20; i++) {
+        world.particles.push({
+          x,
+          y,
+          vx: (Math.random() - 0.5) * 6,
+          vy: -Math.random() * 10,
+          life: 1.0,
+          color: COLORS.multiplier
+        });
+      }
+    },
+  },
+
+  [PowerUpType.GIANT]: {
+    type: PowerUpType.GIANT,
+    icon: '🍄',
+    color: COLORS.giant,
+    sound: 'collect_mushroom',
+    spawnWeight: 1,
+    duration: GIANT_DURATION,
+    stacking: 'extend',
+    name: '거대화 (Giant)',
+    description: `${seconds(GIANT_DURATION)}초간 커져서 발판 밟기가 쉬워집니다.`,
+    onActivate: (_world, p, wasActive) => {
+      if (wasActive) return;
+      const oldW = p.width;
+      const oldH = p.height;
+      p.width = PLAYER_SIZE * 2.0;
+      p.height = PLAYER_SIZE * 2.0;
+      p.y -= (p.height - oldH);
+      p.x -= (p.width - oldW) / 2;
+    },
+    onExpire: (_world, p) => {
+      const shrinkAmount = p.height - PLAYER_SIZE;
+      p.y += shrinkAmount;
+      p.x += (p.width - PLAYER_SIZE) / 2;
+      p.width = PLAYER_SIZE;
+      p.height = PLAYER_SIZE;
+    },
+    burst: (world, x, y) => {
+      // Explosive growth particles
+      for (let i = 0; i < 30; i++) {
+        world.particles.push({
+          x,
+          y,
+          vx: (Math.random() - 0.5) * 15,
+          vy: (Math.random() - 0.5) * 15,
+          life: 1.0,
+          color: COLORS.giant
+        });
+      }
+    },
+  },
+
+  [PowerUpType.BOOSTER]: {
+    type: PowerUpType.BOOSTER,
+    icon: '🚀',
+    color: COLORS.booster,
+    sound: 'collect_rocket',
+    spawnWeight: 1,
+    duration: BOOSTER_DURATION,
+    stacking: 'extend',
+    // 🚀 부스터 중에는 부스터가 아닌 아이템은 획득 금지
+    exclusive: true,
+    // Increased radius for easier collection while boosting
+    pickupRadiusScale: 1.5,
+    name: '부스터 (Rocket)',
+    description: `${seconds(BOOSTER_DURATION)}초간 위로 빠르게 상승합니다.`,
+    burst: (world, x, y) => {
+      // Downward thrust explosion
+      for (let i = 0; i < 30; i++) {
+        world.particles.push({
+          x,
+          y: y + 20,
+          vx: (Math.random() - 0.5) * 12,
+          vy: Math.random() * 12,
+          life: 0.8,
+          color: Math.random() > 0.5 ? COLORS.booster : '#FBBF24'
+        });
+      }
+    },
+  },
+
+  [PowerUpType.MAGNET]: {
+    type: PowerUpType.MAGNET,
+    icon: '🧲',
+    color: COLORS.magnet,
+    sound: 'collect_magnet',
+    spawnWeight: 0.8,
+    duration: MAGNET_DURATION,
+    stacking: 'extend',
+    name: '자석 (Magnet)',
+    description: `${seconds(MAGNET_DURATION)}초간 주변 아이템을 끌어당깁니다.`,
+    onTick: (world, p) => {
+      const cx = p.x + p.width / 2;
+      const cy = p.y + p.height / 2;
+
+      world.platforms.forEach(plat => {
+        if (!plat.powerUp || plat.powerUp === PowerUpType.MAGNET) return;
+        const pos = getPowerUpPosition(plat);
+        const dx = cx - pos.x;
+        const dy = cy - pos.y;
+        const dist = Math.sqrt(dx * dx + dy * dy); // Unlike Math.hypot, exactly specified
+        if (dist === 0 || dist > MAGNET_RADIUS) return;
+
+        const pull = Math.min(MAGNET_PULL_SPEED, dist);
+        plat.powerUpOffsetX = (plat.powerUpOffsetX ?? 0) + (dx / dist) * pull;
+        plat.powerUpOffsetY = (plat.powerUpOffsetY ?? 0) + (dy / dist) * pull;
+      });
+    },
+    burst: (world, x, y) => ringBurst(world, x, y, COLORS.magnet, 16, 4),
+  },
+
+  [PowerUpType.SLOW_MO]: {
+    type: PowerUpType.SLOW_MO,
+    icon: '⏳',
+    color: COLORS.slowMo,
+    sound: 'collect_slowmo',
+    spawnWeight: 0.6,
+    duration: SLOW_MO_DURATION,
+    stacking: 'refresh',
+    timeScale: SLOW_MO_SCALE,
+    name: '슬로모션 (Slow-Mo)',
+    description: `${seconds(SLOW_MO_DURATION)}초간 모든 움직임이 느려집니다.`,
+    burst: (world, x, y) => ringBurst(world, x, y, COLORS.slowMo, 20, 2),
+  },
+
+  [PowerUpType.SPRING_SHOES]: {
+    type: PowerUpType.SPRING_SHOES,
+    icon: '👟',
+    color: COLORS.spring,
+    sound: 'collect_spring',
+    spawnWeight: 0.8,
+    stacking: 'extend',
+    name: '스프링 신발 (Spring Shoes)',
+    description: `다음 ${SPRING_SHOES_CHARGES}번 착지할 때 점프력이 ${SPRING_SHOES_BOOST}배가 됩니다.`,
+    onActivate: (_world, player) => {
+      player.springCharges += SPRING_SHOES_CHARGES;
+    },
+    burst: (world, x, y) => {
+      // Upward spray from the feet
+      for (let i = 0; i < 16; i++) {
+        world.particles.push({
+          x: x + (Math.random() - 0.5) * 20,
+          y: y + 15,
+          vx: (Math.random() - 0.5) * 4,
+          vy: -Math.random() * 8,
+          life: 0.8,
+          color: COLORS.spring
+        });
+      }
+    },
+  },
+};
+
+// Registry in declaration order (help modal, spawn table)
+export const POWER_UP_LIST: PowerUpDefinition[] = Object.values(POWER_UPS);
+
+// --- Player State Helpers ---
+
+export const hasPowerUp = (player: Player, type: PowerUpType) =>
+  (player.powerUpTicks[type] ?? 0) > 0;
+
+export const getPowerUpTicks = (player: Player, type: PowerUpType) =>
+  player.powerUpTicks[type] ?? 0;
+
+export const getScoreMultiplier = (player: Player) =>
+  POWER_UP_LIST.reduce(
+    (total, def) => (def.scoreMultiplier && hasPowerUp(player, def.type) ? total * def.scoreMultiplier : total),
+    1
+  );
+
+// Whether the player may pick this item up right now
+export const canCollect = (player: Player, type: PowerUpType) =>
+  !POWER_UP_LIST.some(def => def.exclusive && def.type !== type && hasPowerUp(player, def.type));
+
+// Slowest active time scale (1 when nothing slows the world down)
+export const getTimeScale = (player: Player) =>
+  POWER_UP_LIST.reduce(
+    (scale, def) => (def.timeScale && hasPowerUp(player, def.type) ? Math.min(scale, def.timeScale) : scale),
+    1
+  );
+
+export const getPickupRadiusScale = (player: Player) =>
+  POWER_UP_LIST.reduce(
+    (scale, def) => (def.pickupRadiusScale && hasPowerUp(player, def.type) ? Math.max(scale, def.pickupRadiusScale) : scale),
+    1
+  );
+
+// --- Engine Hooks ---
+
+export const activatePowerUp = (world: GameWorld, p: Player, type: PowerUpType, sounds: GameSound[]) => {
+  const def = POWER_UPS[type];
+  const wasActive = hasPowerUp(p, type);
+
+  def.burst?.(world, p.x + p.width / 2, p.y + p.height / 2);
+  sounds.push(def.sound);
+
+  if (def.duration !== undefined) {
+    const remaining = getPowerUpTicks(p, type);
+    if (!wasActive || def.stacking === 'refresh') {
+      p.powerUpTicks[type] = def.duration;
+    } else if (def.stacking === 'extend') {
+      p.powerUpTicks[type] = remaining + def.duration;
+    }
+  }
+  def.onActivate?.(world, p, wasActive);
+};
+
+// Count every player's timed abilities down by one tick and expire the ones that ran out
+export const tickPowerUps = (world: GameWorld) => {
+  world.players.forEach(p => {
+    POWER_UP_LIST.forEach(def => {
+      if (!hasPowerUp(p, def.type)) return;
+      def.onTick?.(world, p);
+      const left = getPowerUpTicks(p, def.type) - 1;
+      p.powerUpTicks[def.type] = left;
+      if (left <= 0) {
+        delete p.powerUpTicks[def.type];
+        def.onExpire?.(world, p);
+      }
+    });
+  });
+};
+
+// Weighted pick among all registered items; `random` returns [0, 1)
+export const rollPowerUp = (random: () => number): PowerUpType => {
+  const totalWeight = POWER_UP_LIST.reduce((sum, def) => sum + def.spawnWeight, 0);
+  let roll = random() * totalWeight;
+  for (const def of POWER_UP_LIST) {
+    roll -= def.spawnWeight;
+    if (roll < 0) return def.type;
+  }
+  return POWER_UP_LIST[POWER_UP_LIST.length - 1].type;
+};
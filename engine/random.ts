@@ -0,0 +1,31 @@
+// random.ts
+// Seedable PRNG for world generation. The state is a plain number so it lives
+// inside the world and the same seed always rebuilds the same tower.
+
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// mulberry32 — returns a float in [0, 1) and advances the state
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Fresh 32-bit seed for an unseeded run
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// FNV-1a hash so text (e.g. a date or room code) can be used as a seed
+export const seedFromString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
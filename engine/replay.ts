@@ -0,0 +1,216 @@
+// replay.ts
+// Compact run logs (seed, character, per-fixed-step input) and deterministic
+// playback on top of the headless engine.
+import { CharacterType, GameMode, GameSound } from '../types';
+import { FIXED_TIMESTEP, MAX_STEPS_PER_FRAME, TICKS_PER_SECOND } from '../constants';
+import { GameWorld, EngineInput, createWorld, stepWorld } from './gameEngine';
+
+// Bump whenever a simulation change would make older replays play out differently
+export const REPLAY_VERSION = 6;
+
+// Longest run a replay may claim; shared text is untrusted, and verification
+// allocates and simulates every tick
+export const MAX_REPLAY_TICKS = 60 * 60 * TICKS_PER_SECOND; // One hour
+
+export interface Replay {
+  version: number;
+  seed: number;
+  character: CharacterType;
+  mode: GameMode;
+  ticks: number;   // Total fixed steps in the run
+  score: number;   // Raw engine score at the end of the run
+  inputs: number[]; // Run-length encoded input masks: [mask, count, mask, count, ...]
+}
+
+export interface ReplayRecorder {
+  record: (input: EngineInput, ticks: number) => void;
+  finish: (world: GameWorld) => Replay;
+}
+
+export interface ReplayPlayer {
+  readonly world: GameWorld;
+  readonly totalTicks: number;
+  readonly isFinished: boolean;
+  advance: (dt: number) => GameSound[];
+  seek: (tick: number) => void;
+}
+
+// --- Input Encoding ---
+
+const LEFT_BIT = 1;
+const RIGHT_BIT = 2;
+
+export const encodeInput = (input: EngineInput): number =>
+  (input.left ? LEFT_BIT : 0) | (input.right ? RIGHT_BIT : 0);
+
+export const decodeInput = (mask: number): EngineInput => ({
+  left: (mask & LEFT_BIT) !== 0,
+  right: (mask & RIGHT_BIT) !== 0,
+});
+
+// Expand the run-length log into one mask per tick
+export const expandInputs = (replay: Replay): Uint8Array => {
+  const masks = new Uint8Array(replay.ticks);
+  let cursor = 0;
+  for (let i = 0; i + 1 < replay.inputs.length && cursor < masks.length; i += 2) {
+    const end = Math.min(cursor + replay.inputs[i + 1], masks.length);
+    masks.fill(replay.inputs[i], cursor, end);
+    cursor = end;
+  }
+  return masks;
+};
+
+// --- Recording ---
+
+export const createReplayRecorder = (
+  seed: number,
+  character: CharacterType,
+  mode: GameMode = GameMode.ENDLESS
+): ReplayRecorder => {
+  const inputs: number[] = [];
+
+  return {
+    record: (input: EngineInput, ticks: number) => {
+      if (ticks <= 0) return;
+      const mask = encodeInput(input);
+      const last = inputs.length - 2;
+      if (last >= 0 && inputs[last] === mask) {
+        inputs[last + 1] += ticks;
+      } else {
+        inputs.push(mask, ticks);
+      }
+    },
+
+    finish: (world: GameWorld): Replay => ({
+      version: REPLAY_VERSION,
+      seed,
+      character,
+      mode,
+      ticks: world.tick,
+      score: world.score,
+      inputs: [...inputs],
+    }),
+  };
+};
+
+// --- Playback ---
+
+/**
+ * Re-runs a replay from its seed. Stops at `untilTick` (defaults to the end of
+ * the run) or as soon as the simulated player dies.
+ */
+export const simulateReplay = (replay: Replay, untilTick: number = replay.ticks): GameWorld => {
+  const world = createWorld(replay.character, replay.seed, replay.mode);
+  const masks = expandInputs(replay);
+  const target = Math.min(untilTick, masks.length);
+
+  while (world.tick < target && !world.isGameOver) {
+    stepWorld(world, decodeInput(masks[world.tick]));
+  }
+  return world;
+};
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const masks = expandInputs(replay);
+  let world = createWorld(replay.character, replay.seed, replay.mode);
+  let accumulator = 0;
+
+  const isFinished = () => world.isGameOver || world.tick >= masks.length;
+
+  return {
+    get world() {
+      return world;
+    },
+    get totalTicks() {
+      return masks.length;
+    },
+    get isFinished() {
+      return isFinished();
+    },
+
+    advance: (dt: number): GameSound[] => {
+      const sounds: GameSound[] = [];
+      let ticks = 0;
+
+      accumulator += dt;
+      while (accumulator >= FIXED_TIMESTEP && !isFinished()) {
+        sounds.push(...stepWorld(world, decodeInput(masks[world.tick])));
+        accumulator -= FIXED_TIMESTEP;
+
+        ticks++;
+        if (ticks > MAX_STEPS_PER_FRAME) {
+          accumulator = 0;
+          break;
+        }
+      }
+      return sounds;
+    },
+
+    // Scrubbing backwards rebuilds the world from the seed; forwards continues from here
+    seek: (tick: number) => {
+      const target = Math.max(0, Math.min(Math.floor(tick), masks.length));
+      if (target < world.tick) {
+        world = createWorld(replay.character, replay.seed, replay.mode);
+      }
+      while (world.tick < target && !world.isGameOver) {
+        stepWorld(world, decodeInput(masks[world.tick]));
+      }
+      accumulator = 0;
+    },
+  };
+};
+
+// --- Sharing ---
+
+// Text form: "<version>.<seed>.<character>.<mode>.<ticks>.<score>.<runs>" with numbers in
+// base 36 and each run written as its mask digit followed by its length.
+export const serializeReplay = (replay: Replay): string => {
+  const runs: string[] = [];
+  for (let i = 0; i + 1 < replay.inputs.length; i += 2) {
+    runs.push(`${replay.inputs[i]}${replay.inputs[i + 1].toString(36)}`);
+  }
+  return [
+    replay.version,
+    replay.seed.toString(36),
+    replay.character,
+    replay.mode,
+    replay.ticks.toString(36),
+    replay.score.toString(36),
+    runs.join('_'),
+  ].join('.');
+};
+
+export const parseReplay = (text: string): Replay | null => {
+  const parts = text.trim().split('.');
+  if (parts.length !== 7) return null;
+
+  const [version, seed, character, mode, ticks, score, runs] = parts;
+  if (Number(version) !== REPLAY_VERSION) return null;
+  if (!Object.values(CharacterType).includes(character as CharacterType)) return null;
+  if (!Object.values(GameMode).includes(mode as GameMode)) return null;
+
+  const inputs: number[] = [];
+  let loggedTicks = 0;
+  for (const run of runs ? runs.split('_') : []) {
+    const mask = Number(run[0]);
+    const count = parseInt(run.slice(1), 36);
+    if (!(mask >= 0 && mask <= 3) || !(count > 0)) return null;
+    inputs.push(mask, count);
+    loggedTicks += count;
+    if (loggedTicks > MAX_REPLAY_TICKS) return null;
+  }
+
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    seed: parseInt(seed, 36),
+    character: character as CharacterType,
+    mode: mode as GameMode,
+    ticks: parseInt(ticks, 36),
+    score: parseInt(score, 36),
+    inputs,
+  };
+  if ([replay.seed, replay.ticks, replay.score].some(n => !Number.isFinite(n))) return null;
+  // The input log has to cover exactly the ticks the run claims
+  if (replay.ticks > MAX_REPLAY_TICKS || replay.ticks !== loggedTicks) return null;
+  return replay;
+};
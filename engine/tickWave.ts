@@ -0,0 +1,14 @@
+// tickWave.ts
+// Periodic motion for the simulation. Math.sin and friends aren't exactly
+// specified by JS, so browsers and Node can disagree in the last bits and a run
+// would re-simulate differently during verification. These waves only use
+// + - * / on the tick count, which every engine rounds the same way.
+
+// Smooth wave in [-1, 1] repeating every `period` ticks; sine-shaped, built from
+// two parabolas (up over the first half of the period, down over the second)
+export const tickWave = (tick: number, period: number) => {
+  const t = (((tick % period) + period) % period) / period;
+  const half = t < 0.5 ? t * 2 : t * 2 - 1;
+  const arc = 4 * half * (1 - half);
+  return t < 0.5 ? arc : -arc;
+};
@@ -0,0 +1,65 @@
+// verification.ts
+// Re-simulates a submitted run from its replay and checks the claimed score.
+// Pure engine code, so it runs unchanged in Node (Cloud Function, emulator script).
+import { CharacterType, GameMode } from '../types';
+import { parseReplay, simulateReplay } from './replay';
+import { NameCheckOptions, validateName } from './nameModeration';
+import { GAME_MODES } from './gameModes';
+
+export { toDisplayScore } from './gameModes';
+
+export interface ScoreSubmission {
+  score: number;            // The mode's result: display score, metres or milliseconds
+  character: CharacterType;
+  mode?: GameMode;          // Board the entry was submitted to (defaults to ENDLESS)
+  replay: string;           // serializeReplay() output
+  name?: string;            // Checked against nameModeration when given
+  expectedSeed?: number;    // Daily Tower runs must be played on the day's seed
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  recomputedScore: number;
+  reason?: string;
+}
+
+export const verifySubmission = (
+  submission: ScoreSubmission,
+  nameOptions: NameCheckOptions = {}
+): VerificationResult => {
+  if (submission.name !== undefined) {
+    const nameCheck = validateName(submission.name, nameOptions);
+    if (!nameCheck.ok) {
+      return { verified: false, recomputedScore: 0, reason: `name rejected (${nameCheck.reason})` };
+    }
+  }
+
+  const replay = parseReplay(submission.replay ?? '');
+  if (!replay) {
+    return { verified: false, recomputedScore: 0, reason: 'invalid replay' };
+  }
+  if (submission.expectedSeed !== undefined && replay.seed !== submission.expectedSeed) {
+    return { verified: false, recomputedScore: 0, reason: 'wrong seed for the daily tower' };
+  }
+  if (replay.character !== submission.character) {
+    return { verified: false, recomputedScore: 0, reason: 'character mismatch' };
+  }
+  if (replay.mode !== (submission.mode ?? GameMode.ENDLESS)) {
+    return { verified: false, recomputedScore: 0, reason: 'mode mismatch' };
+  }
+
+  const world = simulateReplay(replay);
+  const recomputedScore = GAME_MODES[replay.mode].result(world);
+
+  // A finished run ends on the exact tick the player fell (or the mode ended it)
+  if (!world.isGameOver || world.tick !== replay.ticks) {
+    return { verified: false, recomputedScore: recomputedScore ?? 0, reason: 'run did not end where the replay says' };
+  }
+  if (recomputedScore === null) {
+    return { verified: false, recomputedScore: 0, reason: 'run did not finish the mode' };
+  }
+  if (recomputedScore !== submission.score) {
+    return { verified: false, recomputedScore, reason: `score mismatch (claimed ${submission.score})` };
+  }
+  return { verified: true, recomputedScore };
+};
@@ -0,0 +1,179 @@
+// leaderboardServer.ts
+// Small self-hosted ranking server speaking the REST API in services/restBackend.ts.
+// Submissions are re-simulated on arrival; rejected runs are kept but never ranked.
+//
+//   npm run leaderboard:server                                  # in-memory, port 8787
+//   PORT=9000 LEADERBOARD_DATA=./rankings.json npm run leaderboard:server
+//
+// Point the game at it with public/leaderboard.json:
+//   { "backend": "rest", "url": "http://localhost:8787" }
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+import { CharacterType, GameMode } from "../types";
+import { parseReplay, serializeReplay } from "../engine/replay";
+import { verifySubmission } from "../engine/verification";
+import { validateName } from "../engine/nameModeration";
+import { createMemoryBackend, StoredScore } from "../services/memoryBackend";
+import { LeaderboardPeriod } from "../services/leaderboardBackend";
+import { getDailySeed, isDailyKey } from "../services/dailyTower";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.LEADERBOARD_DATA;
+const MAX_LIMIT = 100;
+const PROTECTED_NAME_COUNT = 20; // Top entries whose names others can't imitate
+const MAX_BODY_BYTES = 256 * 1024;
+const PERIODS: LeaderboardPeriod[] = ["daily", "weekly", "monthly", "all"];
+
+const initial: StoredScore[] = DATA_FILE && existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, "utf8"))
+  : [];
+
+const backend = createMemoryBackend({
+  entries: initial,
+  onChange: (entries) => {
+    if (DATA_FILE) writeFileSync(DATA_FILE, JSON.stringify(entries, null, 2));
+  },
+  verify: (entry) => verifySubmission({
+    score: entry.score,
+    character: entry.character,
+    replay: entry.replay ? serializeReplay(entry.replay) : "",
+    mode: entry.mode,
+    expectedSeed: entry.daily ? getDailySeed(entry.daily) : undefined
+  }).verified
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type"
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) reject(new Error("body too large"));
+  });
+  req.on("end", () => resolve(body));
+  req.on("error", reject);
+});
+
+const isGameMode = (value: unknown): value is GameMode =>
+  Object.values(GameMode).includes(value as GameMode);
+
+const clampLimit = (value: string | null) =>
+  Math.max(1, Math.min(Number(value) || 20, MAX_LIMIT));
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+  if (req.method === "OPTIONS") return send(res, 204, null);
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    return send(res, 200, { ok: true });
+  }
+
+  if (req.method === "GET" && url.pathname === "/scores") {
+    const period = (url.searchParams.get("period") ?? "all") as LeaderboardPeriod;
+    const character = url.searchParams.get("character") as CharacterType | null;
+    const mode = url.searchParams.get("mode") as GameMode | null;
+    if (!PERIODS.includes(period)) return send(res, 400, { error: "unknown period" });
+    if (character && !Object.values(CharacterType).includes(character)) {
+      return send(res, 400, { error: "unknown character" });
+    }
+    if (mode && !isGameMode(mode)) return send(res, 400, { error: "unknown mode" });
+    return send(res, 200, await backend.getByPeriod(
+      period,
+      clampLimit(url.searchParams.get("limit")),
+      character ?? undefined,
+      mode ?? undefined
+    ));
+  }
+
+  if (req.method === "GET" && url.pathname === "/daily") {
+    const day = url.searchParams.get("day");
+    if (!isDailyKey(day)) return send(res, 400, { error: "day must be YYYY-MM-DD" });
+    return send(res, 200, await backend.getDaily(day, clampLimit(url.searchParams.get("limit"))));
+  }
+
+  if (req.method === "GET" && url.pathname === "/scores/around") {
+    const score = Number(url.searchParams.get("score"));
+    const range = Math.max(0, Math.min(Number(url.searchParams.get("range")) || 2, 10));
+    const mode = url.searchParams.get("mode");
+    if (!Number.isFinite(score)) return send(res, 400, { error: "score is required" });
+    // Around-me only ranks the endless board (see LeaderboardBackend.getAroundMe)
+    if (mode && mode !== GameMode.ENDLESS) return send(res, 400, { error: "around-me is endless only" });
+    return send(res, 200, await backend.getAroundMe(score, range));
+  }
+
+  if (req.method === "POST" && url.pathname === "/scores") {
+    const body = JSON.parse(await readBody(req));
+    const score = Number(body.score);
+    const character = body.character as CharacterType;
+    const playerId = typeof body.playerId === "string" ? body.playerId.slice(0, 64) : undefined;
+
+    if (body.daily != null && !isDailyKey(body.daily)) return send(res, 400, { error: "daily must be YYYY-MM-DD" });
+    if (body.mode != null && !isGameMode(body.mode)) return send(res, 400, { error: "unknown mode" });
+    // The Daily Tower is always an endless run
+    if (body.daily != null && body.mode != null && body.mode !== GameMode.ENDLESS) {
+      return send(res, 400, { error: "daily runs are endless" });
+    }
+    if (!Number.isInteger(score) || score < 0 || !Object.values(CharacterType).includes(character)) {
+      return send(res, 400, { error: "invalid submission" });
+    }
+
+    // Names are protected per board: the day's Daily Tower board or the mode's all-time board
+    const top = body.daily != null
+      ? await backend.getDaily(body.daily, PROTECTED_NAME_COUNT)
+      : await backend.getByPeriod("all", PROTECTED_NAME_COUNT, undefined, body.mode ?? undefined);
+    const nameCheck = validateName(String(body.name ?? ""), {
+      protectedNames: top.filter((entry) => !playerId || entry.playerId !== playerId).map((entry) => entry.name)
+    });
+    if (!nameCheck.ok) {
+      return send(res, 422, { error: "invalid name", reason: nameCheck.reason, message: nameCheck.message });
+    }
+
+    await backend.submit({
+      name: nameCheck.name,
+      score,
+      character,
+      replay: parseReplay(String(body.replay ?? "")) ?? undefined,
+      runId: typeof body.runId === "string" ? body.runId.slice(0, 64) : undefined,
+      playerId,
+      daily: body.daily ?? undefined,
+      mode: body.mode ?? undefined,
+      avatarColor: typeof body.avatarColor === "string" && /^#[0-9a-f]{6}$/i.test(body.avatarColor)
+        ? body.avatarColor
+        : undefined
+    });
+    return send(res, 201, { ok: true });
+  }
+
+  const deleteMatch = url.pathname.match(/^\/scores\/([^/]+)$/);
+  if (req.method === "DELETE" && deleteMatch) {
+    const playerId = url.searchParams.get("playerId");
+    if (!playerId) return send(res, 400, { error: "playerId is required" });
+    try {
+      await backend.remove(decodeURIComponent(deleteMatch[1]), playerId);
+    } catch {
+      return send(res, 403, { error: "not the owner" });
+    }
+    return send(res, 200, { ok: true });
+  }
+
+  send(res, 404, { error: "not found" });
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error("Request failed:", error);
+    send(res, 400, { error: "bad request" });
+  });
+}).listen(PORT, () => {
+  console.log(`Leaderboard server on http://localhost:${PORT}${DATA_FILE ? ` (saving to ${DATA_FILE})` : ""}`);
+});
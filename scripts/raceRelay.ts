@@ -0,0 +1,211 @@
+// raceRelay.ts
+// WebSocket relay for live race rooms (protocol in services/raceProtocol.ts).
+// Rooms only live in memory: the relay hands out room codes and seeds, keeps
+// every lobby in sync and forwards positions to the rest of the room unread.
+// Races are never ranked, so nothing is verified or stored.
+//
+//   npm run race:relay                 # ws://localhost:8788
+//   PORT=9001 npm run race:relay
+//
+// Point the game at a relay on another machine with public/race.json:
+//   { "url": "ws://intranet:8788" }
+import { WebSocket, WebSocketServer } from "ws";
+
+import { CharacterType, GameMode } from "../types";
+import { randomSeed } from "../engine/random";
+import { validateName, DEFAULT_PLAYER_NAME } from "../engine/nameModeration";
+import {
+  RaceClientMessage,
+  RaceMember,
+  RaceRoomInfo,
+  RaceServerMessage,
+  RACE_ROOM_CODE_CHARS,
+  RACE_ROOM_CODE_LENGTH,
+  RACE_ROOM_MAX_PLAYERS,
+  isRoomCode
+} from "../services/raceProtocol";
+
+const PORT = Number(process.env.PORT ?? 8788);
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+interface Connection {
+  id: string;
+  socket: WebSocket;
+  room: RaceRoomInfo | null;
+}
+
+const rooms = new Map<string, RaceRoomInfo>();
+const connections = new Map<string, Connection>();
+let nextConnectionId = 1;
+
+const isCharacter = (value: unknown): value is CharacterType =>
+  Object.values(CharacterType).includes(value as CharacterType);
+
+const isGameMode = (value: unknown): value is GameMode =>
+  Object.values(GameMode).includes(value as GameMode);
+
+const send = (connection: Connection, message: RaceServerMessage) => {
+  if (connection.socket.readyState === WebSocket.OPEN) connection.socket.send(JSON.stringify(message));
+};
+
+const fail = (connection: Connection, message: string) => send(connection, { type: "error", message });
+
+// Every member gets the whole room (with their own id) after any change
+const broadcastRoom = (room: RaceRoomInfo) => {
+  room.members.forEach((member) => {
+    const connection = connections.get(member.id);
+    if (connection) send(connection, { type: "room", you: member.id, room });
+  });
+};
+
+const createRoomCode = () => {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < RACE_ROOM_CODE_LENGTH; i++) {
+      code += RACE_ROOM_CODE_CHARS[Math.floor(Math.random() * RACE_ROOM_CODE_CHARS.length)];
+    }
+    if (!rooms.has(code)) return code;
+  }
+};
+
+// Empty or offensive names fall back to the anonymous default instead of blocking the join
+const cleanName = (raw: unknown) => {
+  const check = validateName(String(raw ?? ""));
+  return check.ok ? check.name : DEFAULT_PLAYER_NAME;
+};
+
+// A race is over once everyone in it has finished or left
+const endRaceIfDone = (room: RaceRoomInfo) => {
+  if (room.phase === "racing" && room.members.every((member) => !member.racing || member.finish)) {
+    room.phase = "lobby";
+  }
+};
+
+const leaveRoom = (connection: Connection) => {
+  const room = connection.room;
+  if (!room) return;
+  connection.room = null;
+
+  room.members = room.members.filter((member) => member.id !== connection.id);
+  if (room.members.length === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  if (room.hostId === connection.id) room.hostId = room.members[0].id;
+  endRaceIfDone(room);
+  broadcastRoom(room);
+};
+
+const joinRoom = (connection: Connection, room: RaceRoomInfo, name: unknown, character: CharacterType) => {
+  leaveRoom(connection);
+  const member: RaceMember = {
+    id: connection.id,
+    name: cleanName(name),
+    character,
+    racing: false,
+    finish: null
+  };
+  room.members.push(member);
+  connection.room = room;
+  broadcastRoom(room);
+};
+
+function handle(connection: Connection, message: RaceClientMessage) {
+  const room = connection.room;
+  const me = room?.members.find((member) => member.id === connection.id);
+
+  switch (message.type) {
+    case "create": {
+      if (!isCharacter(message.character) || !isGameMode(message.mode)) return fail(connection, "잘못된 요청입니다.");
+      const created: RaceRoomInfo = {
+        code: createRoomCode(),
+        hostId: connection.id,
+        mode: message.mode,
+        phase: "lobby",
+        round: 0,
+        seed: randomSeed(),
+        members: []
+      };
+      rooms.set(created.code, created);
+      return joinRoom(connection, created, message.name, message.character);
+    }
+
+    case "join": {
+      if (!isRoomCode(message.code) || !isCharacter(message.character)) return fail(connection, "잘못된 방 코드입니다.");
+      const target = rooms.get(message.code);
+      if (!target) return fail(connection, "그런 방이 없어요. 코드를 확인해 주세요.");
+      if (target.members.length >= RACE_ROOM_MAX_PLAYERS) return fail(connection, `방이 꽉 찼어요 (최대 ${RACE_ROOM_MAX_PLAYERS}명).`);
+      return joinRoom(connection, target, message.name, message.character);
+    }
+
+    case "profile": {
+      if (!room || !me || me.racing || !isCharacter(message.character)) return;
+      me.character = message.character;
+      return broadcastRoom(room);
+    }
+
+    case "mode": {
+      if (!room || room.hostId !== connection.id || room.phase !== "lobby" || !isGameMode(message.mode)) return;
+      room.mode = message.mode;
+      return broadcastRoom(room);
+    }
+
+    case "start": {
+      if (!room || room.hostId !== connection.id || room.phase !== "lobby") return;
+      room.phase = "racing";
+      room.round += 1;
+      room.seed = randomSeed();
+      room.members.forEach((member) => {
+        member.racing = true;
+        member.finish = null;
+      });
+      return broadcastRoom(room);
+    }
+
+    case "state": {
+      if (!room || !me?.racing || message.position?.round !== room.round) return;
+      room.members.forEach((member) => {
+        const other = connections.get(member.id);
+        if (other && member.id !== connection.id) send(other, { type: "state", id: connection.id, position: message.position });
+      });
+      return;
+    }
+
+    case "finish": {
+      if (!room || !me?.racing || me.finish || message.round !== room.round || !message.finish) return;
+      const { result, height, score } = message.finish;
+      me.finish = {
+        result: typeof result === "number" && Number.isFinite(result) ? result : null,
+        height: Number(height) || 0,
+        score: Number(score) || 0
+      };
+      endRaceIfDone(room);
+      return broadcastRoom(room);
+    }
+  }
+}
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on("connection", (socket) => {
+  const connection: Connection = { id: `p${nextConnectionId++}`, socket, room: null };
+  connections.set(connection.id, connection);
+
+  socket.on("message", (data) => {
+    try {
+      handle(connection, JSON.parse(data.toString()));
+    } catch (error) {
+      console.error("Bad message:", error);
+      fail(connection, "잘못된 요청입니다.");
+    }
+  });
+
+  socket.on("close", () => {
+    leaveRoom(connection);
+    connections.delete(connection.id);
+  });
+});
+
+server.on("listening", () => {
+  console.log(`Race relay on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,153 @@
+// verifyLeaderboard.ts
+// Re-simulates unchecked entries (verifiedAt == null) on every board, checks their names
+// against engine/nameModeration.ts and flags them verified or rejected.
+// Daily Tower entries must also have been played on that day's seed, and Time Attack /
+// Sprint entries in their board's mode.
+//
+//   VERIFIER_EMAIL=... VERIFIER_PASSWORD=... npm run verify:scores   # project from public/firebase.json
+//   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 \
+//     VERIFIER_EMAIL=... VERIFIER_PASSWORD=... npm run verify:scores  # local emulators
+//
+// firestore.rules only lets accounts listed under verifiers/<uid> write verification
+// fields, so the script signs in with that account's email and password.
+//
+// The same verifySubmission() call can be dropped into a Cloud Function trigger.
+import { readFileSync } from "node:fs";
+import { initializeApp } from "firebase/app";
+import { getAuth, connectAuthEmulator, signInWithEmailAndPassword } from "firebase/auth";
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+  updateDoc,
+  serverTimestamp,
+  QueryDocumentSnapshot
+} from "firebase/firestore";
+
+import { CharacterType, GameMode } from "../types";
+import { verifySubmission } from "../engine/verification";
+import { getGameMode } from "../engine/gameModes";
+import { getDailySeed } from "../services/dailyTower";
+
+const BATCH_SIZE = 100;
+const PROTECTED_NAME_COUNT = 20; // Top entries whose names others can't imitate
+
+// Collection → mode its replays must have been played in (see services/firebase.ts)
+const BOARDS: { collectionName: string; mode: GameMode }[] = [
+  { collectionName: "globalLeaderboard", mode: GameMode.ENDLESS },
+  { collectionName: "dailyLeaderboard", mode: GameMode.ENDLESS },
+  { collectionName: "timeAttackLeaderboard", mode: GameMode.TIME_ATTACK },
+  { collectionName: "sprintLeaderboard", mode: GameMode.SPRINT }
+];
+
+async function main() {
+  const config = JSON.parse(readFileSync(new URL("../public/firebase.json", import.meta.url), "utf8"));
+  const app = initializeApp(config);
+  const firestore = getFirestore(app);
+  const auth = getAuth(app);
+
+  const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+  if (emulatorHost) {
+    const [host, port] = emulatorHost.split(":");
+    connectFirestoreEmulator(firestore, host, Number(port));
+  }
+  const authEmulatorHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (authEmulatorHost) {
+    connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  }
+
+  const email = process.env.VERIFIER_EMAIL;
+  const password = process.env.VERIFIER_PASSWORD;
+  if (!email || !password) {
+    throw new Error("Set VERIFIER_EMAIL and VERIFIER_PASSWORD (an account listed in verifiers/<uid>).");
+  }
+  await signInWithEmailAndPassword(auth, email, password);
+
+  let checkedCount = 0;
+  let verifiedCount = 0;
+  let rejectedCount = 0;
+
+  for (const { collectionName, mode } of BOARDS) {
+    // Each board protects its own top names (the Daily Tower per day, as the game and
+    // leaderboard server do); rejected entries don't hold a name
+    const topByDay = new Map<string, QueryDocumentSnapshot[]>();
+    const getTopEntries = async (day?: string) => {
+      const key = day ?? "";
+      if (!topByDay.has(key)) {
+        const top = await getDocs(query(
+          collection(firestore, collectionName),
+          ...(day ? [where("day", "==", day)] : []),
+          orderBy("score", getGameMode(mode).ascending ? "asc" : "desc"),
+          limit(PROTECTED_NAME_COUNT)
+        ));
+        topByDay.set(key, top.docs.filter((other) => other.data().rejected !== true));
+      }
+      return topByDay.get(key)!;
+    };
+
+    const pending = await getDocs(query(
+      collection(firestore, collectionName),
+      where("verifiedAt", "==", null),
+      limit(BATCH_SIZE)
+    ));
+    checkedCount += pending.size;
+
+    for (const doc of pending.docs) {
+      const data = doc.data();
+      try {
+        const topEntries = await getTopEntries(data.day);
+        const result = verifySubmission({
+          score: data.score ?? 0,
+          character: data.character as CharacterType,
+          replay: data.replay ?? "",
+          name: data.name ?? "",
+          mode,
+          expectedSeed: data.day ? getDailySeed(data.day) : undefined
+        }, {
+          // Names held by other accounts (an entry never conflicts with its owner's)
+          protectedNames: topEntries
+            .filter((other) => other.id !== doc.id && other.data().uid !== data.uid)
+            .map((other) => other.data().name)
+        });
+
+        await updateDoc(doc.ref, {
+          verified: result.verified,
+          rejected: !result.verified,
+          verificationNote: result.reason ?? null,
+          verifiedAt: serverTimestamp()
+        });
+
+        if (result.verified) {
+          verifiedCount++;
+        } else {
+          rejectedCount++;
+          console.log(`✗ ${collectionName}/${doc.id} (${data.name}): ${result.reason}, recomputed ${result.recomputedScore}`);
+        }
+      } catch (error) {
+        // A malformed entry is rejected instead of stopping the run; left unverified it
+        // would come up first again every time
+        rejectedCount++;
+        console.error(`✗ ${collectionName}/${doc.id}: verification threw`, error);
+        await updateDoc(doc.ref, {
+          verified: false,
+          rejected: true,
+          verificationNote: `error: ${error instanceof Error ? error.message : String(error)}`,
+          verifiedAt: serverTimestamp()
+        }).catch((updateError) => console.error(`  could not mark ${doc.id} rejected:`, updateError));
+      }
+    }
+  }
+
+  console.log(`Checked ${checkedCount} entries: ${verifiedCount} verified, ${rejectedCount} rejected.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Leaderboard verification failed:", error);
+  process.exit(1);
+});
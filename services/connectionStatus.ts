@@ -0,0 +1,102 @@
+// connectionStatus.ts
+// 연결 상태 — navigator.onLine + online/offline 이벤트 + 설정된 랭킹 백엔드 확인을 합쳐
+// 구독 가능한 상태로 제공. UI는 매번 확인하지 않고 변경될 때만 알림을 받음
+import { getLeaderboardBackend } from "./leaderboardBackend";
+
+export type ConnectionStatus =
+  | "checking"     // 확인 중
+  | "online"       // 네트워크 + 백엔드 모두 정상
+  | "offline"      // 브라우저가 오프라인
+  | "unreachable"; // 네트워크는 있지만 백엔드 확인 실패 (설정 오류, 서버 다운 등)
+
+type Listener = (status: ConnectionStatus) => void;
+
+const RECHECK_MS = 60 * 1000; // unreachable 상태에서 다시 확인하는 간격
+
+let status: ConnectionStatus = "checking";
+let checkId = 0;
+let recheckTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+function setStatus(next: ConnectionStatus) {
+  if (recheckTimer) {
+    clearTimeout(recheckTimer);
+    recheckTimer = null;
+  }
+  if (next === "unreachable" && listeners.size > 0) {
+    recheckTimer = setTimeout(() => {
+      recheckTimer = null;
+      refreshConnectionStatus();
+    }, RECHECK_MS);
+  }
+
+  if (next === status) return;
+  status = next;
+  listeners.forEach((listener) => listener(status));
+}
+
+export function getConnectionStatus(): ConnectionStatus {
+  return status;
+}
+
+// ------------------------------------------------------
+// 🔍 다시 확인 — 요청이 겹치면 마지막 결과만 반영
+// ------------------------------------------------------
+export async function refreshConnectionStatus(): Promise<ConnectionStatus> {
+  const id = ++checkId;
+
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    setStatus("offline");
+    return status;
+  }
+
+  if (status !== "online") setStatus("checking");
+
+  let reachable = false;
+  try {
+    const backend = await getLeaderboardBackend();
+    reachable = await backend.checkStatus();
+  } catch {
+    reachable = false;
+  }
+
+  if (id === checkId) setStatus(reachable ? "online" : "unreachable");
+  return status;
+}
+
+// 백엔드 요청이 실패했을 때 호출 → 상태를 다시 확인
+export function reportBackendFailure() {
+  if (status === "online") refreshConnectionStatus();
+}
+
+// ------------------------------------------------------
+// 📡 구독 — 첫 구독자가 생기면 이벤트 연결 후 확인, 마지막 구독자가 빠지면 해제
+// ------------------------------------------------------
+const handleOnline = () => { refreshConnectionStatus(); };
+const handleOffline = () => {
+  checkId++;
+  setStatus("offline");
+};
+
+export function subscribeConnectionStatus(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(status);
+
+  if (listeners.size === 1) {
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    refreshConnectionStatus();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      if (recheckTimer) {
+        clearTimeout(recheckTimer);
+        recheckTimer = null;
+      }
+    }
+  };
+}
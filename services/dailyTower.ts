@@ -0,0 +1,43 @@
+// dailyTower.ts
+// 데일리 타워 — 하루 동안 모두가 같은 시드(같은 발판 배치)로 도전
+// 랭크 도전은 하루 한 번, 연습은 무제한. 랭크 기록은 일반 랭킹과 분리된 데일리 랭킹에만 올라감
+import { seedFromString } from "../engine/random";
+import { getPeriodKey } from "./leaderboardBackend";
+
+const DAILY_STATE_KEY = "sparky-tower.daily";
+
+export type DailyMode = "ranked" | "practice";
+
+export interface DailyRun {
+  day: string;      // UTC 날짜 키 (YYYY-MM-DD) — 일간 랭킹과 같은 기준
+  mode: DailyMode;
+}
+
+// ------------------------------------------------------
+// 📅 오늘의 타워 — 날짜만으로 시드가 정해지므로 서버 없이도 모두 같은 코스
+// ------------------------------------------------------
+export const getDailyKey = (date: Date = new Date()) => getPeriodKey("daily", date);
+
+export const getDailySeed = (day: string) => seedFromString(`daily-tower:${day}`);
+
+export const isDailyKey = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// ------------------------------------------------------
+// 🎟️ 랭크 도전권 — 시작하는 순간 사용 처리 (중간에 나가거나 새로고침해도 재도전 불가)
+// ------------------------------------------------------
+export function hasUsedRankedAttempt(day: string): boolean {
+  try {
+    return localStorage.getItem(DAILY_STATE_KEY) === day;
+  } catch {
+    return false;
+  }
+}
+
+export function markRankedAttemptUsed(day: string) {
+  try {
+    localStorage.setItem(DAILY_STATE_KEY, day);
+  } catch {
+    // 저장할 수 없어도 서버 쪽 제한(계정/플레이어당 하루 한 기록)이 남아 있음
+  }
+}
@@ -1,17 +1,44 @@
 // firebase.ts
-import { initializeApp } from "firebase/app";
+import { initializeApp, FirebaseApp, FirebaseError } from "firebase/app";
+import {
+  getAuth,
+  signInAnonymously,
+  signInWithPopup,
+  linkWithPopup,
+  GoogleAuthProvider,
+  AuthError,
+  User
+} from "firebase/auth";
 import {
   getFirestore,
   collection,
-  addDoc,
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
   serverTimestamp,
   getDocs,
+  getDocsFromServer,
+  getCountFromServer,
   orderBy,
   query,
-  limit
+  where,
+  limit,
+  QueryDocumentSnapshot
 } from "firebase/firestore";
 
-import { CharacterType } from "../types"; // ★ 타입 충돌 해결
+import { CharacterType, GameMode } from "../types"; // ★ 타입 충돌 해결
+import { serializeReplay } from "../engine/replay";
+import { getGameMode } from "../engine/gameModes";
+import { createRunId } from "./localLeaderboard";
+import {
+  LeaderboardBackend,
+  LeaderboardPeriod,
+  LeaderboardSubmission,
+  AroundMeResult,
+  createRejection,
+  getPeriodKeys
+} from "./leaderboardBackend";
 
 export interface LeaderboardEntry {
   id: string;
@@ -19,8 +46,30 @@ export interface LeaderboardEntry {
   score: number;
   character: CharacterType;
   timestamp: number;
+  replay?: string;
+  verified: boolean;
+  runId?: string;
+  playerId?: string;
+  avatarColor?: string;
+  uid?: string;
+  daily?: string;
+  mode?: GameMode;
 }
 
+// ------------------------------------------------------
+// 🏁 모드별 랭킹 컬렉션 — 무한 모드는 기존 globalLeaderboard 그대로
+// ------------------------------------------------------
+const MODE_COLLECTIONS: Record<GameMode, string> = {
+  [GameMode.ENDLESS]: "globalLeaderboard",
+  [GameMode.TIME_ATTACK]: "timeAttackLeaderboard",
+  [GameMode.SPRINT]: "sprintLeaderboard"
+};
+
+const modeCollection = (mode?: GameMode) => MODE_COLLECTIONS[mode ?? GameMode.ENDLESS];
+
+// 스프린트는 시간이 짧을수록 위
+const scoreOrder = (mode?: GameMode) => orderBy("score", getGameMode(mode).ascending ? "asc" : "desc");
+
 // ------------------------------------------------------
 // firebase.json 불러오기
 // ------------------------------------------------------
@@ -39,71 +88,306 @@ async function loadFirebaseConfig() {
 // ------------------------------------------------------
 // Firestore 초기화
 // ------------------------------------------------------
+let app: FirebaseApp | null = null;
 let db: any = null;
 
+async function initApp() {
+  if (app) return app;
+
+  const config = await loadFirebaseConfig();
+  app = initializeApp(config);
+
+  return app;
+}
+
 async function initFirebase() {
   if (db) return db;
 
-  const config = await loadFirebaseConfig();
-  const app = initializeApp(config);
-  db = getFirestore(app);
+  db = getFirestore(await initApp());
 
   return db;
 }
 
 // ------------------------------------------------------
-// 🔥 온라인 상태 체크 — App.tsx와 타입 오류 해결
+// 👤 인증 — 익명 계정으로 시작하고, 원하면 Google 계정으로 승격
+// 보안 규칙이 쓰기/삭제마다 request.auth.uid를 확인하므로 모든 쓰기 전에 로그인 보장
 // ------------------------------------------------------
-export async function checkOnlineStatus() {
+export type AuthProvider = "anonymous" | "google";
+
+export interface AuthAccount {
+  uid: string;
+  provider: AuthProvider;
+  displayName?: string;
+}
+
+const toAccount = (user: User): AuthAccount => ({
+  uid: user.uid,
+  provider: user.isAnonymous ? "anonymous" : "google",
+  displayName: user.displayName ?? undefined
+});
+
+async function ensureSignedIn(): Promise<User> {
+  const auth = getAuth(await initApp());
+  await auth.authStateReady(); // 저장된 계정이 있으면 복원 후 재사용
+  if (auth.currentUser) return auth.currentUser;
+
+  const credential = await signInAnonymously(auth);
+  return credential.user;
+}
+
+export async function signInAnonymouslyToFirebase(): Promise<AuthAccount> {
+  return toAccount(await ensureSignedIn());
+}
+
+// 익명 계정에 Google을 연결하면 uid가 그대로라 기존 기록의 소유권이 유지됨
+// 이미 다른 기록에 쓰인 Google 계정이면 그 계정으로 전환
+export async function signInWithGoogle(): Promise<AuthAccount> {
+  const auth = getAuth(await initApp());
+  const provider = new GoogleAuthProvider();
+  const current = await ensureSignedIn();
+
+  if (!current.isAnonymous) return toAccount(current);
+
+  try {
+    const credential = await linkWithPopup(current, provider);
+    return toAccount(credential.user);
+  } catch (error) {
+    if ((error as AuthError).code !== "auth/credential-already-in-use") throw error;
+    const credential = await signInWithPopup(auth, provider);
+    return toAccount(credential.user);
+  }
+}
+
+// ------------------------------------------------------
+// 🔥 연결 상태 체크 — 로그인한 뒤 설정된 프로젝트에서 문서 1개를 서버에서 직접 읽어봄
+// (firebase.json 누락/오류, Auth 로그인 실패, 권한 거부, 네트워크 끊김 모두 false)
+// ------------------------------------------------------
+const HEALTH_TIMEOUT_MS = 5000;
+
+export async function checkFirestoreHealth() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
   try {
-    const res = await fetch("https://firestore.googleapis.com", { method: "HEAD" });
-    return res.ok;
+    const firestore = await initFirebase();
+    await Promise.race([
+      // 제출은 로그인이 필요하므로, Auth가 안 되면 online으로 보지 않음
+      ensureSignedIn().then(() => getDocsFromServer(query(collection(firestore, "globalLeaderboard"), limit(1)))),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error("연결 확인 시간 초과")), HEALTH_TIMEOUT_MS);
+      })
+    ]);
+    return true;
   } catch {
     return false;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 // ------------------------------------------------------
-// 🔥 글로벌 랭킹 저장 — App.tsx newEntry와 완벽 호환
+// 🔥 글로벌 랭킹 저장 — 리플레이(seed + 입력 로그) 포함
+// verified: false / rejected: false / verifiedAt: null 로 저장되고, 검증 스크립트가 재시뮬레이션 후 갱신
+// 문서 ID = runId, uid = 로그인한 계정 → 보안 규칙이 판당 한 번만 생성을 허용
+// 데일리 타워 기록은 dailyLeaderboard/<날짜>_<uid> → 계정당 하루 한 번
+// 타임 어택 / 스프린트 기록은 모드별 컬렉션 (score = 높이 m / 도착 시간 ms)
 // ------------------------------------------------------
-export async function saveScoreToFirestore(
-  entry: { name: string; score: number; character: CharacterType }
-) {
+const SAVE_TIMEOUT_MS = 10000;
+
+// 재시도해도 결과가 같은 Firestore 오류 (일시적인 unavailable / deadline-exceeded 등은 제외)
+const PERMANENT_ERROR_CODES = ["permission-denied", "invalid-argument", "already-exists", "out-of-range"];
+
+export async function saveScoreToFirestore(entry: LeaderboardSubmission) {
   const firestore = await initFirebase();
+  const user = await ensureSignedIn();
+  const runId = entry.runId ?? createRunId();
+  const ref = entry.daily
+    ? doc(collection(firestore, "dailyLeaderboard"), `${entry.daily}_${user.uid}`)
+    : doc(collection(firestore, modeCollection(entry.mode)), runId);
 
-  await addDoc(collection(firestore, "globalLeaderboard"), {
+  const data = {
     name: entry.name,
     score: entry.score,
     character: entry.character,
+    seed: entry.replay?.seed ?? null,
+    replay: entry.replay ? serializeReplay(entry.replay) : null,
+    runId,
+    playerId: entry.playerId ?? null,
+    avatarColor: entry.avatarColor ?? null,
+    uid: user.uid,
+    // 일간/주간/월간 랭킹 조회용, 데일리 타워는 날짜 하나로
+    ...(entry.daily ? { day: entry.daily } : { periods: getPeriodKeys() }),
+    verified: false,
+    rejected: false, // 랭킹 쿼리가 where("rejected", "==", false)로 거름
+    verifiedAt: null,
     timestamp: serverTimestamp()
-  });
+  };
+
+  // 오프라인이면 Firestore 쓰기는 서버 응답까지 끝나지 않으므로 시간 제한
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      setDoc(ref, data),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error("점수 저장 시간 초과")), SAVE_TIMEOUT_MS);
+      })
+    ]);
+  } catch (error) {
+    // 재시도인데 이전 시도가 이미 저장됐다면 규칙이 덮어쓰기를 거부함 → 저장된 것으로 처리
+    const existing = await getDoc(ref).catch(() => null);
+    if (existing?.exists() && existing.data().uid === user.uid) return true;
+    // 보안 규칙 위반 등은 다시 보내도 같은 결과 → 재시도 대기열에서 빼도록 거부로 처리
+    if (error instanceof FirebaseError && PERMANENT_ERROR_CODES.includes(error.code)) {
+      throw createRejection(`랭킹 서버가 기록을 거부했습니다. (${error.code})`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
 
   return true;
 }
 
+// ------------------------------------------------------
+// 🗑 내 기록 삭제 — 보안 규칙이 작성자(uid)만 허용
+// ------------------------------------------------------
+export async function deleteScoreFromFirestore(runId: string, mode?: GameMode) {
+  const firestore = await initFirebase();
+  await ensureSignedIn();
+  await deleteDoc(doc(collection(firestore, modeCollection(mode)), runId));
+}
+
+// ------------------------------------------------------
+// Firestore 문서 → 랭킹 항목
+// ------------------------------------------------------
+const COLLECTION_MODES = Object.fromEntries(
+  Object.entries(MODE_COLLECTIONS).map(([mode, name]) => [name, mode as GameMode])
+);
+
+function toEntry(doc: QueryDocumentSnapshot): LeaderboardEntry {
+  const data = doc.data();
+
+  return {
+    id: doc.id,
+    name: data.name ?? "",
+    score: data.score ?? 0,
+    character: data.character as CharacterType, // ★ enum 타입 변환 처리
+    timestamp: data.timestamp?.seconds ?? 0,
+    replay: data.replay ?? undefined,
+    verified: data.verified === true,
+    runId: data.runId ?? undefined,
+    playerId: data.playerId ?? undefined,
+    avatarColor: data.avatarColor ?? undefined,
+    uid: data.uid ?? undefined,
+    daily: data.day ?? undefined,
+    mode: COLLECTION_MODES[doc.ref.parent.id] ?? GameMode.ENDLESS // 모드는 컬렉션으로 구분
+  };
+}
+
+const toEntries = (docs: QueryDocumentSnapshot[]) =>
+  docs
+    .filter((doc) => doc.data().rejected !== true) // ★ 검증 실패 기록 제외
+    .map(toEntry);
+
 // ------------------------------------------------------
 // 🔥 글로벌 랭킹 조회 (TOP 20) — 인자 mismatch 해결
 // ------------------------------------------------------
 export async function getLeaderboardFromFirestore(limitCount: number = 20): Promise<LeaderboardEntry[]> {
   const firestore = await initFirebase();
 
+  // 검증 실패 기록은 쿼리에서 빼야 TOP N이 N개로 채워짐
   const q = query(
     collection(firestore, "globalLeaderboard"),
+    where("rejected", "==", false),
     orderBy("score", "desc"),
     limit(limitCount)
   );
 
   const snapshot = await getDocs(q);
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
+  return toEntries(snapshot.docs);
+}
 
-    return {
-      id: doc.id,
-      name: data.name ?? "",
-      score: data.score ?? 0,
-      character: data.character as CharacterType, // ★ enum 타입 변환 처리
-      timestamp: data.timestamp?.seconds ?? 0
-    };
-  });
+// ------------------------------------------------------
+// 🔥 기간별 / 캐릭터별 / 모드별 랭킹 — periods.<기간> 키, character가 같은 기록끼리 (rejected 포함 복합 색인 필요)
+// ------------------------------------------------------
+export async function getPeriodLeaderboardFromFirestore(
+  period: LeaderboardPeriod,
+  limitCount: number = 20,
+  character?: CharacterType,
+  mode?: GameMode
+): Promise<LeaderboardEntry[]> {
+  if (period === "all" && !character && modeCollection(mode) === "globalLeaderboard") {
+    return getLeaderboardFromFirestore(limitCount);
+  }
+
+  const firestore = await initFirebase();
+
+  // 검증 실패 기록은 쿼리에서 빼야 TOP N이 N개로 채워짐
+  const filters = [
+    where("rejected", "==", false),
+    ...(period !== "all" ? [where(`periods.${period}`, "==", getPeriodKeys()[period])] : []),
+    ...(character ? [where("character", "==", character)] : [])
+  ];
+  const q = query(
+    collection(firestore, modeCollection(mode)),
+    ...filters,
+    scoreOrder(mode),
+    limit(limitCount)
+  );
+
+  const snapshot = await getDocs(q);
+
+  return toEntries(snapshot.docs);
 }
+
+// ------------------------------------------------------
+// 🔥 내 주변 순위 — 위로 range개, 아래로 range개 + 전체 순위(count 쿼리)
+// 순위도 이웃 목록도 검증 실패 기록은 빼고 셈 — 보이는 랭킹과 같은 기준
+// ------------------------------------------------------
+export async function getAroundMeFromFirestore(score: number, range: number = 2): Promise<AroundMeResult> {
+  const firestore = await initFirebase();
+  const leaderboard = collection(firestore, "globalLeaderboard");
+  const notRejected = where("rejected", "==", false);
+
+  const [higherCount, above, below] = await Promise.all([
+    getCountFromServer(query(leaderboard, notRejected, where("score", ">", score))),
+    getDocs(query(leaderboard, notRejected, where("score", ">", score), orderBy("score", "asc"), limit(range))),
+    getDocs(query(leaderboard, notRejected, where("score", "<=", score), orderBy("score", "desc"), limit(range + 1)))
+  ]);
+
+  return {
+    rank: higherCount.data().count + 1,
+    entries: [...toEntries(above.docs).reverse(), ...toEntries(below.docs)]
+  };
+}
+
+// ------------------------------------------------------
+// 🗓 데일리 타워 랭킹 — 같은 날짜(day) 기록끼리 (복합 색인 필요)
+// ------------------------------------------------------
+export async function getDailyLeaderboardFromFirestore(day: string, limitCount: number = 20): Promise<LeaderboardEntry[]> {
+  const firestore = await initFirebase();
+
+  const q = query(
+    collection(firestore, "dailyLeaderboard"),
+    where("rejected", "==", false), // 검증 실패 기록이 TOP N 자리를 차지하지 않도록
+    where("day", "==", day),
+    orderBy("score", "desc"),
+    limit(limitCount)
+  );
+
+  const snapshot = await getDocs(q);
+
+  return toEntries(snapshot.docs);
+}
+
+export const firestoreBackend: LeaderboardBackend = {
+  name: "firestore",
+  submit: async (entry) => {
+    await saveScoreToFirestore(entry);
+  },
+  remove: (runId, _playerId, mode) => deleteScoreFromFirestore(runId, mode),
+  getTop: getLeaderboardFromFirestore,
+  getAroundMe: getAroundMeFromFirestore,
+  getByPeriod: getPeriodLeaderboardFromFirestore,
+  getDaily: getDailyLeaderboardFromFirestore,
+  checkStatus: checkFirestoreHealth
+};
@@ -0,0 +1,124 @@
+// leaderboardBackend.ts
+// 랭킹 저장소 인터페이스 — Firestore / 메모리 / 자체 호스팅 REST 서버 중 하나를
+// public/leaderboard.json 설정으로 선택
+import { CharacterType, GameMode, LeaderboardEntry } from "../types";
+import { Replay } from "../engine/replay";
+
+export type LeaderboardPeriod = "daily" | "weekly" | "monthly" | "all";
+
+export interface LeaderboardSubmission {
+  name: string;
+  score: number;
+  character: CharacterType;
+  replay?: Replay;
+  runId?: string; // 판마다 한 번만 저장 — 같은 runId로 다시 제출해도 처음 기록 유지
+  playerId?: string;    // 프로필의 고정 플레이어 ID
+  avatarColor?: string;
+  daily?: string;       // 데일리 타워 날짜 키 — 있으면 데일리 랭킹에 저장 (플레이어당 하루 한 기록)
+  mode?: GameMode;      // 랭킹 종류 (없으면 무한 모드) — score는 그 모드의 결과값 (점수 / m / ms)
+}
+
+export interface AroundMeResult {
+  rank: number;                 // 1부터 시작하는 전체 순위
+  entries: LeaderboardEntry[];  // 내 위아래 기록 (점수 내림차순)
+}
+
+export interface LeaderboardBackend {
+  readonly name: string;
+  submit: (entry: LeaderboardSubmission) => Promise<void>;
+  getTop: (limitCount: number) => Promise<LeaderboardEntry[]>;                // 무한 모드
+  getAroundMe: (score: number, range: number) => Promise<AroundMeResult>;     // 무한 모드
+  // character를 주면 해당 캐릭터 기록만, mode를 주면 그 모드 랭킹 (스프린트는 시간 오름차순)
+  getByPeriod: (
+    period: LeaderboardPeriod,
+    limitCount: number,
+    character?: CharacterType,
+    mode?: GameMode
+  ) => Promise<LeaderboardEntry[]>;
+  getDaily: (day: string, limitCount: number) => Promise<LeaderboardEntry[]>; // 데일리 타워 랭킹
+  checkStatus: () => Promise<boolean>;
+  // 내 기록 삭제 — 작성자만 가능 (Firestore는 로그인 uid, 그 외는 playerId로 확인)
+  remove: (runId: string, playerId: string, mode?: GameMode) => Promise<void>;
+}
+
+// 서버가 기록 자체를 거부한 경우 (이름 규칙 위반 등) — 다시 보내도 결과가 같으므로 재시도하지 않음
+export type SubmissionRejection = Error & { rejected: true };
+
+export const createRejection = (message: string): SubmissionRejection =>
+  Object.assign(new Error(message), { rejected: true as const });
+
+export const isRejection = (error: unknown): error is SubmissionRejection =>
+  error instanceof Error && (error as Partial<SubmissionRejection>).rejected === true;
+
+export interface LeaderboardConfig {
+  backend: "firestore" | "memory" | "rest";
+  url?: string; // rest 전용: 랭킹 서버 주소 (예: http://intranet:8787)
+}
+
+// ------------------------------------------------------
+// 📅 기간 키 (UTC 기준) — 기록마다 저장해 두고 같은 키끼리 순위를 매김
+// ------------------------------------------------------
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ISO 8601 주차 (월요일 시작)
+const isoWeek = (date: Date) => {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${pad(week)}`;
+};
+
+export function getPeriodKey(period: Exclude<LeaderboardPeriod, "all">, date: Date = new Date()): string {
+  const year = date.getUTCFullYear();
+  const month = pad(date.getUTCMonth() + 1);
+  if (period === "daily") return `${year}-${month}-${pad(date.getUTCDate())}`;
+  if (period === "weekly") return isoWeek(date);
+  return `${year}-${month}`;
+}
+
+export function getPeriodKeys(date: Date = new Date()) {
+  return {
+    daily: getPeriodKey("daily", date),
+    weekly: getPeriodKey("weekly", date),
+    monthly: getPeriodKey("monthly", date),
+  };
+}
+
+// ------------------------------------------------------
+// ⚙️ 설정 불러오기 — 파일이 없으면 Firestore
+// ------------------------------------------------------
+async function loadLeaderboardConfig(): Promise<LeaderboardConfig> {
+  try {
+    const res = await fetch("/leaderboard.json");
+    if (res.ok) return await res.json();
+  } catch {
+    // 파일이 없으면 기본값
+  }
+  return { backend: "firestore" };
+}
+
+let backendPromise: Promise<LeaderboardBackend> | null = null;
+
+export function getLeaderboardBackend(): Promise<LeaderboardBackend> {
+  if (backendPromise) return backendPromise;
+
+  backendPromise = (async () => {
+    const config = await loadLeaderboardConfig();
+
+    if (config.backend === "memory") {
+      const { createMemoryBackend } = await import("./memoryBackend");
+      return createMemoryBackend();
+    }
+    if (config.backend === "rest") {
+      if (!config.url) throw new Error("leaderboard.json: rest 백엔드에는 url이 필요합니다.");
+      const { createRestBackend } = await import("./restBackend");
+      return createRestBackend(config.url);
+    }
+    const { firestoreBackend } = await import("./firebase");
+    return firestoreBackend;
+  })();
+
+  return backendPromise;
+}
@@ -0,0 +1,250 @@
+// localLeaderboard.ts
+// 이 기기에서 플레이한 모든 기록 — IndexedDB에 저장하고, 사용할 수 없으면 localStorage로 대체
+import { CharacterType, GameMode, LeaderboardEntry } from "../types";
+import { compareResults, getGameMode } from "../engine/gameModes";
+import { LeaderboardPeriod, getPeriodKey } from "./leaderboardBackend";
+
+const DB_NAME = "sparky-tower";
+const DB_VERSION = 1;
+const STORE_NAME = "runs";
+const FALLBACK_KEY = "sparky-tower.runs";
+const MAX_LOCAL_RUNS = 500; // localStorage 대체 저장소 용량 제한
+
+export type LocalRun = LeaderboardEntry & { runId: string };
+
+// ------------------------------------------------------
+// 실행 ID — 같은 기록의 로컬/글로벌 사본을 연결
+// ------------------------------------------------------
+export function createRunId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ------------------------------------------------------
+// IndexedDB 열기 (실패하면 null → localStorage 사용)
+// ------------------------------------------------------
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "runId" });
+        store.createIndex("score", "score");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      // Private mode in some browsers throws synchronously
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ------------------------------------------------------
+// localStorage 대체 저장소
+// ------------------------------------------------------
+function readFallback(): LocalRun[] {
+  try {
+    return JSON.parse(localStorage.getItem(FALLBACK_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function writeFallback(runs: LocalRun[]) {
+  // 용량이 부족하면 점수가 낮은 기록부터 버림
+  const kept = [...runs].sort((a, b) => b.score - a.score).slice(0, MAX_LOCAL_RUNS);
+  try {
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error("Local leaderboard save failed:", error);
+  }
+}
+
+// ------------------------------------------------------
+// 📱 기록 저장 / 수정
+// ------------------------------------------------------
+export async function saveLocalRun(run: LocalRun): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    writeFallback([...readFallback().filter((r) => r.runId !== run.runId), run]);
+    return;
+  }
+
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  await requestToPromise(tx.objectStore(STORE_NAME).put(run));
+}
+
+export async function getLocalRun(runId: string): Promise<LocalRun | null> {
+  const db = await openDatabase();
+  if (!db) return readFallback().find((r) => r.runId === runId) ?? null;
+
+  const tx = db.transaction(STORE_NAME, "readonly");
+  return (await requestToPromise(tx.objectStore(STORE_NAME).get(runId))) ?? null;
+}
+
+// 이름 입력 후 같은 기록의 이름을 갱신
+export async function updateLocalRun(runId: string, changes: Partial<LocalRun>): Promise<void> {
+  const run = await getLocalRun(runId);
+  if (!run) return;
+  await saveLocalRun({ ...run, ...changes, runId });
+}
+
+// 기록 시각(timestamp)이 현재 기간(오늘/이번 주/이번 달)에 속하는지
+function isInPeriod(run: LocalRun, period: LeaderboardPeriod, now: Date): boolean {
+  if (period === "all") return true;
+  return getPeriodKey(period, new Date(run.timestamp * 1000)) === getPeriodKey(period, now);
+}
+
+const isMode = (run: LocalRun, mode: GameMode) => (run.mode ?? GameMode.ENDLESS) === mode;
+
+// ------------------------------------------------------
+// 📱 로컬 랭킹 조회 (좋은 기록 순, 기간/캐릭터/모드 선택)
+// ------------------------------------------------------
+export async function getLocalLeaderboard(
+  limitCount: number = 20,
+  period: LeaderboardPeriod = "all",
+  character?: CharacterType,
+  mode: GameMode = GameMode.ENDLESS
+): Promise<LocalRun[]> {
+  const now = new Date();
+  const matches = (run: LocalRun) =>
+    !run.daily && isMode(run, mode) && isInPeriod(run, period, now) && (!character || run.character === character);
+
+  const db = await openDatabase();
+  if (!db) {
+    return readFallback()
+      .filter(matches)
+      .sort(compareResults(mode))
+      .slice(0, limitCount);
+  }
+
+  const tx = db.transaction(STORE_NAME, "readonly");
+  const index = tx.objectStore(STORE_NAME).index("score");
+  const runs: LocalRun[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    // 스프린트는 시간이 짧은 기록부터
+    const cursorRequest = index.openCursor(null, getGameMode(mode).ascending ? "next" : "prev");
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || runs.length >= limitCount) {
+        resolve();
+        return;
+      }
+      if (matches(cursor.value)) runs.push(cursor.value);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  return runs;
+}
+
+// 데일리 타워 랭크 기록 (그날 것만, 점수 내림차순)
+export async function getLocalDailyRuns(day: string): Promise<LocalRun[]> {
+  const runs = await getAllRuns();
+  return runs.filter((run) => run.daily === day).sort((a, b) => b.score - a.score);
+}
+
+// 아직 글로벌 랭킹에 올라가지 않은 제출 대기 기록
+export async function getPendingRuns(): Promise<LocalRun[]> {
+  const runs = await getAllRuns();
+  return runs.filter((r) => r.syncStatus === "pending");
+}
+
+// 내 최고 기록 — 글로벌 1위가 아니라 이 기기의 기록 중 최고점 (무한 모드)
+export async function getPersonalBest(character?: CharacterType): Promise<number> {
+  const [best] = await getLocalLeaderboard(1, "all", character);
+  return best?.score ?? 0;
+}
+
+// 고스트 레이스 상대로 쓸 내 최고 기록 (모드별, 리플레이가 있는 기록만)
+export async function getPersonalBestRun(mode: GameMode = GameMode.ENDLESS): Promise<LocalRun | null> {
+  const [best] = await getLocalLeaderboard(1, "all", undefined, mode);
+  return best?.replay ? best : null;
+}
+
+// ------------------------------------------------------
+// 📊 캐릭터별 통계 — 플레이 수, 평균 점수, 최고 점수, 최고 높이 (CHARACTER_SPECS 밸런스용)
+// 점수 단위가 같은 무한 모드 기록만 (데일리 타워 포함)
+// ------------------------------------------------------
+export interface CharacterStats {
+  plays: number;
+  averageScore: number;
+  bestScore: number;
+  bestHeight: number; // 픽셀
+}
+
+async function getAllRuns(): Promise<LocalRun[]> {
+  const db = await openDatabase();
+  if (!db) return readFallback();
+
+  const tx = db.transaction(STORE_NAME, "readonly");
+  return requestToPromise(tx.objectStore(STORE_NAME).getAll());
+}
+
+export async function getCharacterStats(): Promise<Record<CharacterType, CharacterStats>> {
+  const runs = await getAllRuns();
+
+  const statsFor = (character: CharacterType): CharacterStats => {
+    const mine = runs.filter((run) => run.character === character && isMode(run, GameMode.ENDLESS));
+    const total = mine.reduce((sum, run) => sum + run.score, 0);
+    return {
+      plays: mine.length,
+      averageScore: mine.length > 0 ? Math.round(total / mine.length) : 0,
+      bestScore: mine.reduce((best, run) => Math.max(best, run.score), 0),
+      bestHeight: mine.reduce((best, run) => Math.max(best, run.height ?? 0), 0),
+    };
+  };
+
+  return {
+    [CharacterType.YELLOW]: statsFor(CharacterType.YELLOW),
+    [CharacterType.BLUE]: statsFor(CharacterType.BLUE),
+  };
+}
+
+// ------------------------------------------------------
+// 🔀 글로벌 + 로컬 병합
+// 같은 runId는 글로벌 사본을 우선(내 기록이면 synced), 아직 올라가지 않은 내 기록은 isLocal로 표시
+// ------------------------------------------------------
+export function mergeLeaderboards(
+  global: LeaderboardEntry[],
+  local: LocalRun[],
+  limitCount: number = 20,
+  mode: GameMode = GameMode.ENDLESS
+): LeaderboardEntry[] {
+  const globalRunIds = new Set(global.map((entry) => entry.runId).filter(Boolean));
+  const localRunIds = new Set(local.map((run) => run.runId));
+
+  const mine = global.map((entry) =>
+    entry.runId && localRunIds.has(entry.runId) ? { ...entry, syncStatus: "synced" as const } : entry
+  );
+  const localOnly = local
+    .filter((run) => !globalRunIds.has(run.runId))
+    .map((run) => ({ ...run, isLocal: true }));
+
+  return [...mine, ...localOnly]
+    .sort(compareResults(mode))
+    .slice(0, limitCount);
+}
@@ -0,0 +1,105 @@
+// memoryBackend.ts
+// 메모리 랭킹 — 오프라인 개발용 대체 저장소이자 로컬 랭킹 서버(scripts/leaderboardServer.ts)의 저장소
+import { GameMode, LeaderboardEntry } from "../types";
+import { serializeReplay } from "../engine/replay";
+import { compareResults } from "../engine/gameModes";
+import {
+  LeaderboardBackend,
+  LeaderboardPeriod,
+  LeaderboardSubmission,
+  getPeriodKeys
+} from "./leaderboardBackend";
+
+export interface StoredScore extends LeaderboardEntry {
+  id: string;
+  periods: ReturnType<typeof getPeriodKeys>;
+  rejected?: boolean;
+}
+
+export interface MemoryBackendOptions {
+  entries?: StoredScore[];                              // 초기 데이터 (서버가 파일에서 복원)
+  onChange?: (entries: StoredScore[]) => void;          // 저장 후 호출 (서버가 파일로 기록)
+  verify?: (entry: LeaderboardSubmission) => boolean;   // 제출 시 재시뮬레이션 검증
+}
+
+export function createMemoryBackend(options: MemoryBackendOptions = {}): LeaderboardBackend {
+  let entries: StoredScore[] = [...(options.entries ?? [])];
+  let nextId = entries.length;
+
+  // 검증에 실패한 기록은 저장은 하되 순위에서 제외, 데일리 타워 기록은 그날 랭킹에만,
+  // 모드별 기록은 그 모드 랭킹에만
+  const ranked = (daily?: string, mode: GameMode = GameMode.ENDLESS) =>
+    entries
+      .filter((entry) => !entry.rejected && entry.daily === daily && (entry.mode ?? GameMode.ENDLESS) === mode)
+      .sort(compareResults(mode));
+
+  const toEntry = ({ periods, rejected, ...entry }: StoredScore): LeaderboardEntry => entry;
+
+  return {
+    name: "memory",
+
+    submit: async (submission) => {
+      // 판당 한 번만 저장 — 재시도로 같은 runId가 다시 오면 처음 기록 유지
+      if (submission.runId && entries.some((entry) => entry.id === submission.runId)) return;
+      // 데일리 타워는 플레이어당 하루 한 기록
+      if (submission.daily && submission.playerId && entries.some((entry) =>
+        entry.daily === submission.daily && entry.playerId === submission.playerId
+      )) return;
+
+      const verified = options.verify ? options.verify(submission) : false;
+      const stored: StoredScore = {
+        id: submission.runId ?? `mem-${nextId++}`,
+        name: submission.name,
+        score: submission.score,
+        character: submission.character,
+        timestamp: Math.floor(Date.now() / 1000),
+        replay: submission.replay ? serializeReplay(submission.replay) : undefined,
+        verified,
+        rejected: options.verify ? !verified : undefined,
+        runId: submission.runId,
+        playerId: submission.playerId,
+        avatarColor: submission.avatarColor,
+        daily: submission.daily,
+        mode: submission.mode,
+        periods: getPeriodKeys(),
+      };
+
+      entries = [...entries, stored];
+      options.onChange?.(entries);
+    },
+
+    remove: async (runId, playerId) => {
+      const target = entries.find((entry) => entry.id === runId);
+      if (!target) return;
+      if (!target.playerId || target.playerId !== playerId) throw new Error("본인 기록만 삭제할 수 있습니다.");
+
+      entries = entries.filter((entry) => entry !== target);
+      options.onChange?.(entries);
+    },
+
+    getTop: async (limitCount) => ranked().slice(0, limitCount).map(toEntry),
+
+    getAroundMe: async (score, range) => {
+      const list = ranked();
+      const above = list.filter((entry) => entry.score > score);
+      const below = list.filter((entry) => entry.score <= score);
+      return {
+        rank: above.length + 1,
+        entries: [...above.slice(-range), ...below.slice(0, range + 1)].map(toEntry),
+      };
+    },
+
+    getByPeriod: async (period: LeaderboardPeriod, limitCount, character, mode) => {
+      const key = period === "all" ? null : getPeriodKeys()[period];
+      return ranked(undefined, mode)
+        .filter((entry) => period === "all" || entry.periods[period] === key)
+        .filter((entry) => !character || entry.character === character)
+        .slice(0, limitCount)
+        .map(toEntry);
+    },
+
+    getDaily: async (day, limitCount) => ranked(day).slice(0, limitCount).map(toEntry),
+
+    checkStatus: async () => true,
+  };
+}
@@ -0,0 +1,67 @@
+// playerProfile.ts
+// 이 기기의 플레이어 프로필 — 이름, 선호 캐릭터, 아바타 색, 고정 플레이어 ID
+// 기록 제출 시 자동으로 채워지고, 랭킹에서 "나"를 표시하는 데 사용
+import { CharacterType } from "../types";
+import { MAX_NAME_LENGTH } from "../constants";
+import { createRunId } from "./localLeaderboard";
+
+const PROFILE_KEY = "sparky-tower.profile";
+
+export const AVATAR_COLORS = ["#F87171", "#FB923C", "#FACC15", "#4ADE80", "#38BDF8", "#818CF8", "#E879F9", "#F472B6"];
+
+export interface PlayerProfile {
+  playerId: string;               // 처음 실행 시 생성, 바뀌지 않음
+  name: string;                   // 비어 있으면 제출 시 "익명"
+  preferredCharacter: CharacterType;
+  avatarColor: string;
+  authUid?: string;               // Firebase 인증과 연결된 경우 (기록의 작성자 uid)
+  authProvider?: "anonymous" | "google";
+}
+
+const createProfile = (): PlayerProfile => ({
+  playerId: createRunId(),
+  name: "",
+  preferredCharacter: CharacterType.YELLOW,
+  avatarColor: AVATAR_COLORS[Math.floor(Math.random() * AVATAR_COLORS.length)],
+});
+
+// ------------------------------------------------------
+// 👤 불러오기 / 저장 (localStorage — 작고 동기적으로 필요하므로 IndexedDB 대신)
+// ------------------------------------------------------
+export function loadProfile(): PlayerProfile {
+  try {
+    const stored = localStorage.getItem(PROFILE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      const profile: PlayerProfile = { ...createProfile(), ...parsed };
+      if (!Object.values(CharacterType).includes(profile.preferredCharacter)) {
+        profile.preferredCharacter = CharacterType.YELLOW;
+      }
+      if (!parsed.playerId) saveProfile(profile); // ID는 한 번 정해지면 유지
+      return profile;
+    }
+  } catch {
+    // 손상된 프로필은 새로 만듦
+  }
+
+  const profile = createProfile();
+  saveProfile(profile);
+  return profile;
+}
+
+export function saveProfile(profile: PlayerProfile) {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error("Profile save failed:", error);
+  }
+}
+
+export function updateProfile(changes: Partial<Omit<PlayerProfile, "playerId">>): PlayerProfile {
+  const profile = { ...loadProfile(), ...changes };
+  if (changes.name !== undefined) {
+    profile.name = changes.name.substring(0, MAX_NAME_LENGTH);
+  }
+  saveProfile(profile);
+  return profile;
+}
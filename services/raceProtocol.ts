@@ -0,0 +1,77 @@
+// raceProtocol.ts
+// 레이스 방 메시지 형식 — 게임(services/raceRoom.ts)과 중계 서버(scripts/raceRelay.ts)가 함께 사용
+//
+//   클라이언트 → 서버: create / join / profile / mode / start / state / finish
+//   서버 → 클라이언트: room / state / error
+//
+// 서버는 방 코드·시드·참가자 목록만 관리하고, 위치는 해석하지 않고 같은 방의 다른 사람에게 그대로 전달
+import { CharacterType, GameMode } from "../types";
+
+export const RACE_ROOM_CODE_LENGTH = 5;
+export const RACE_ROOM_MAX_PLAYERS = 8;
+// 헷갈리는 글자 (0/O, 1/I/L) 제외
+export const RACE_ROOM_CODE_CHARS = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export type RacePhase =
+  | "lobby"   // 방장이 시작하기를 기다리는 중
+  | "racing"; // 레이스 중 — 모두 끝나면 다시 lobby
+
+export interface RaceFinish {
+  result: number | null; // 모드 결과값 (스프린트 미완주는 null)
+  height: number;        // 올라간 높이 (픽셀)
+  score: number;         // 표시 점수
+}
+
+export interface RaceMember {
+  id: string;
+  name: string;
+  character: CharacterType;
+  racing: boolean;             // 이번 레이스 참가자 (레이스 중에 들어온 사람은 다음 판부터)
+  finish: RaceFinish | null;   // 이번 레이스를 끝낸 결과
+}
+
+export interface RaceRoomInfo {
+  code: string;
+  hostId: string;
+  mode: GameMode;
+  phase: RacePhase;
+  round: number; // 시작할 때마다 1씩 증가 — 이전 판의 늦은 위치 메시지를 버리는 용도
+  seed: number;  // 이번 레이스의 타워 시드 (모두 같은 발판 배치)
+  members: RaceMember[];
+}
+
+// 참가자 위치 — 자기 화면 좌표 + 카메라 높이 (같은 타워라 높이 차이만큼만 옮겨 그리면 됨)
+export interface RacePosition {
+  round: number;
+  tick: number;
+  x: number;
+  y: number;
+  vx: number;     // 바라보는 방향과 걷는 애니메이션
+  height: number; // 카메라가 올라간 높이 (픽셀)
+  score: number;  // 표시 점수
+}
+
+export type RaceClientMessage =
+  | { type: "create"; name: string; character: CharacterType; mode: GameMode }
+  | { type: "join"; code: string; name: string; character: CharacterType }
+  | { type: "profile"; character: CharacterType }
+  | { type: "mode"; mode: GameMode } // 방장만, 대기 중에만
+  | { type: "start" }                // 방장만
+  | { type: "state"; position: RacePosition }
+  | { type: "finish"; round: number; finish: RaceFinish };
+
+export type RaceServerMessage =
+  | { type: "room"; you: string; room: RaceRoomInfo }
+  | { type: "state"; id: string; position: RacePosition }
+  | { type: "error"; message: string };
+
+// ------------------------------------------------------
+// 🔑 방 코드 — 입력할 때 소문자/공백/하이픈은 알아서 정리
+// ------------------------------------------------------
+export const normalizeRoomCode = (raw: string) =>
+  raw.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, RACE_ROOM_CODE_LENGTH);
+
+export const isRoomCode = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.length === RACE_ROOM_CODE_LENGTH &&
+  [...value].every((char) => RACE_ROOM_CODE_CHARS.includes(char));
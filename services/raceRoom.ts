@@ -0,0 +1,265 @@
+// raceRoom.ts
+// 실시간 레이스 방 클라이언트 (중계 서버: scripts/raceRelay.ts, 메시지: services/raceProtocol.ts)
+// 방 상태를 구독 가능한 스냅샷으로 제공하고, 다른 참가자의 위치를 받아 부드럽게 보간해서 GameCanvas에 넘겨줌
+import { CharacterType, GameMode } from "../types";
+import { getGameMode, toMeters } from "../engine/gameModes";
+import {
+  RaceClientMessage,
+  RaceFinish,
+  RacePosition,
+  RaceRoomInfo,
+  RaceServerMessage
+} from "./raceProtocol";
+
+const DEFAULT_RELAY_PORT = 8788;
+const STANDINGS_INTERVAL_MS = 250; // 위치가 바뀔 때 순위 알림은 초당 4번까지
+
+export type RaceConnectionStatus = "connecting" | "open" | "closed";
+
+// 실시간 순위 한 줄 (나 포함)
+export interface RaceStanding {
+  id: string;
+  name: string;
+  character: CharacterType;
+  isYou: boolean;
+  height: number;              // 지금까지 올라간 높이 (픽셀)
+  score: number;               // 표시 점수
+  finish: RaceFinish | null;   // 끝났으면 결과
+}
+
+export interface RaceRoomSnapshot {
+  status: RaceConnectionStatus;
+  you: string | null;
+  room: RaceRoomInfo | null;
+  error: string | null;
+  standings: RaceStanding[]; // 이번 레이스 참가자, 순위순
+}
+
+// 화면에 그릴 다른 참가자 — 보간된 위치 (자기 화면 좌표 + 카메라 높이)
+export interface RemoteRacer {
+  id: string;
+  name: string;
+  character: CharacterType;
+  x: number;
+  y: number;
+  vx: number;
+  height: number;
+}
+
+export type RaceRoomRequest =
+  | { type: "create"; name: string; character: CharacterType; mode: GameMode }
+  | { type: "join"; code: string; name: string; character: CharacterType };
+
+export interface RaceRoomClient {
+  getSnapshot: () => RaceRoomSnapshot;
+  subscribe: (listener: (snapshot: RaceRoomSnapshot) => void) => () => void;
+  setCharacter: (character: CharacterType) => void;
+  setMode: (mode: GameMode) => void;  // 방장만
+  start: () => void;                  // 방장만
+  sendPosition: (position: Omit<RacePosition, "round">) => void;
+  finish: (finish: RaceFinish) => void;
+  getRemoteRacers: (now: number) => RemoteRacer[];
+  close: () => void;
+}
+
+interface PositionSample extends RacePosition {
+  at: number; // 받은 시각 (performance.now)
+}
+
+// ------------------------------------------------------
+// ⚙️ 중계 서버 주소 — public/race.json이 없으면 게임을 연 호스트의 8788 포트
+// ------------------------------------------------------
+export async function getRaceRelayUrl(): Promise<string> {
+  try {
+    const res = await fetch("/race.json");
+    if (res.ok) {
+      const config = await res.json();
+      if (typeof config.url === "string") return config.url;
+    }
+  } catch {
+    // 파일이 없으면 기본값
+  }
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.hostname}:${DEFAULT_RELAY_PORT}`;
+}
+
+// ------------------------------------------------------
+// 🏁 실시간 순위 — 끝난 기록은 모드 결과로, 달리는 중이면 지금 점수/높이로 비교
+// 스프린트는 완주한 사람이 먼저 (빠른 순), 나머지는 높이 순
+// ------------------------------------------------------
+const liveValue = (mode: GameMode, standing: RaceStanding) =>
+  mode === GameMode.ENDLESS ? standing.score : toMeters(standing.height);
+
+export function rankStandings(mode: GameMode, standings: RaceStanding[]): RaceStanding[] {
+  if (getGameMode(mode).ascending) {
+    const time = (s: RaceStanding) => s.finish?.result ?? null;
+    return [...standings].sort((a, b) => {
+      const [ta, tb] = [time(a), time(b)];
+      if (ta !== null && tb !== null) return ta - tb;
+      if (ta !== null || tb !== null) return ta !== null ? -1 : 1;
+      return b.height - a.height;
+    });
+  }
+  const value = (s: RaceStanding) => s.finish?.result ?? liveValue(mode, s);
+  return [...standings].sort((a, b) => value(b) - value(a));
+}
+
+// ------------------------------------------------------
+// 🔌 방 만들기 / 참가 — 연결되면 바로 요청을 보냄
+// ------------------------------------------------------
+export function connectRaceRoom(url: string, request: RaceRoomRequest): RaceRoomClient {
+  const socket = new WebSocket(url);
+  const listeners = new Set<(snapshot: RaceRoomSnapshot) => void>();
+  const samples = new Map<string, { prev: PositionSample; last: PositionSample }>();
+
+  let status: RaceConnectionStatus = "connecting";
+  let you: string | null = null;
+  let room: RaceRoomInfo | null = null;
+  let error: string | null = null;
+  let ownPosition: RacePosition | null = null;
+  let snapshot: RaceRoomSnapshot | null = null;
+  let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: RaceClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const buildStandings = (): RaceStanding[] => {
+    if (!room) return [];
+    const current = room;
+    const standings = current.members
+      .filter((member) => member.racing)
+      .map((member) => {
+        const isYou = member.id === you;
+        const position = isYou ? ownPosition : samples.get(member.id)?.last ?? null;
+        return {
+          id: member.id,
+          name: member.name,
+          character: member.character,
+          isYou,
+          height: member.finish?.height ?? (position?.round === current.round ? position.height : 0),
+          score: member.finish?.score ?? (position?.round === current.round ? position.score : 0),
+          finish: member.finish,
+        };
+      });
+    return rankStandings(current.mode, standings);
+  };
+
+  const notify = () => {
+    if (notifyTimer) {
+      clearTimeout(notifyTimer);
+      notifyTimer = null;
+    }
+    snapshot = { status, you, room, error, standings: buildStandings() };
+    listeners.forEach((listener) => listener(snapshot!));
+  };
+
+  // 위치 변화는 모아서 알림
+  const notifySoon = () => {
+    if (!notifyTimer) notifyTimer = setTimeout(notify, STANDINGS_INTERVAL_MS);
+  };
+
+  socket.onopen = () => {
+    status = "open";
+    send(request);
+    notify();
+  };
+
+  socket.onmessage = (event) => {
+    let message: RaceServerMessage;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      return;
+    }
+
+    if (message.type === "room") {
+      // 새 레이스가 시작되면 이전 판 위치는 버림
+      if (room && message.room.round !== room.round) {
+        samples.clear();
+        ownPosition = null;
+      }
+      you = message.you;
+      room = message.room;
+      error = null;
+      notify();
+    } else if (message.type === "state") {
+      if (message.position.round !== room?.round) return;
+      const sample = { ...message.position, at: performance.now() };
+      const previous = samples.get(message.id);
+      samples.set(message.id, { prev: previous?.last ?? sample, last: sample });
+      notifySoon();
+    } else if (message.type === "error") {
+      error = message.message;
+      notify();
+    }
+  };
+
+  socket.onerror = () => {
+    error = status === "connecting" ? "레이스 서버에 연결할 수 없어요." : "레이스 서버 연결에 문제가 생겼어요.";
+  };
+
+  socket.onclose = () => {
+    if (status !== "closed" && !error) error = "레이스 서버와 연결이 끊겼어요.";
+    status = "closed";
+    notify();
+  };
+
+  return {
+    getSnapshot: () => snapshot ?? { status, you, room, error, standings: buildStandings() },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    setCharacter: (character) => send({ type: "profile", character }),
+
+    setMode: (mode) => send({ type: "mode", mode }),
+
+    start: () => send({ type: "start" }),
+
+    sendPosition: (position) => {
+      if (!room || room.phase !== "racing") return;
+      ownPosition = { ...position, round: room.round };
+      send({ type: "state", position: ownPosition });
+      notifySoon();
+    },
+
+    finish: (finish) => {
+      if (!room || room.phase !== "racing") return;
+      send({ type: "finish", round: room.round, finish });
+    },
+
+    // 마지막 두 위치 사이를 한 간격 늦게 따라가며 보간 (끝난 참가자는 그리지 않음)
+    getRemoteRacers: (now) => {
+      if (!room || room.phase !== "racing") return [];
+      return room.members.flatMap((member) => {
+        const entry = samples.get(member.id);
+        if (member.id === you || member.finish || !entry) return [];
+        const { prev, last } = entry;
+        const interval = last.at - prev.at;
+        const t = interval > 0 ? Math.min(1, (now - last.at) / interval) : 1;
+        const lerp = (a: number, b: number) => a + (b - a) * t;
+        return [{
+          id: member.id,
+          name: member.name,
+          character: member.character,
+          x: lerp(prev.x, last.x),
+          y: lerp(prev.y, last.y),
+          vx: last.vx,
+          height: lerp(prev.height, last.height),
+        }];
+      });
+    },
+
+    close: () => {
+      status = "closed";
+      if (notifyTimer) clearTimeout(notifyTimer);
+      listeners.clear();
+      socket.close();
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// restBackend.ts
+// 자체 호스팅 랭킹 서버용 HTTP 클라이언트 (API는 scripts/leaderboardServer.ts 참고)
+//
+//   GET  /health
+//   GET  /scores?limit=20&period=daily|weekly|monthly|all&character=YELLOW|BLUE&mode=ENDLESS|TIME_ATTACK|SPRINT
+//   GET  /scores/around?score=1234&range=2
+//   GET  /daily?day=2025-01-31&limit=20
+//   POST /scores   { name, score, character, replay, runId, playerId, avatarColor, daily, mode }
+//   DELETE /scores/:runId?playerId=...
+//
+// 422 = 검증 실패로 거부된 제출 (재시도하지 않음)
+import { LeaderboardEntry } from "../types";
+import { serializeReplay } from "../engine/replay";
+import { AroundMeResult, LeaderboardBackend, createRejection } from "./leaderboardBackend";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export function createRestBackend(baseUrl: string): LeaderboardBackend {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${root}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+        signal: controller.signal,
+      });
+      if (res.status === 422) {
+        const body = await res.json().catch(() => ({}));
+        throw createRejection(body.message ?? "랭킹 서버가 기록을 거부했습니다.");
+      }
+      if (!res.ok) throw new Error(`랭킹 서버 오류 (${res.status})`);
+      return await res.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    name: "rest",
+
+    submit: async (entry) => {
+      await request("/scores", {
+        method: "POST",
+        body: JSON.stringify({
+          name: entry.name,
+          score: entry.score,
+          character: entry.character,
+          replay: entry.replay ? serializeReplay(entry.replay) : null,
+          runId: entry.runId ?? null,
+          playerId: entry.playerId ?? null,
+          avatarColor: entry.avatarColor ?? null,
+          daily: entry.daily ?? null,
+          mode: entry.mode ?? null,
+        }),
+      });
+    },
+
+    remove: async (runId, playerId) => {
+      await request(`/scores/${encodeURIComponent(runId)}?playerId=${encodeURIComponent(playerId)}`, {
+        method: "DELETE",
+      });
+    },
+
+    getTop: (limitCount) => request<LeaderboardEntry[]>(`/scores?limit=${limitCount}`),
+
+    getAroundMe: (score, range) =>
+      request<AroundMeResult>(`/scores/around?score=${score}&range=${range}`),
+
+    getByPeriod: (period, limitCount, character, mode) =>
+      request<LeaderboardEntry[]>(
+        `/scores?limit=${limitCount}&period=${period}${character ? `&character=${character}` : ""}${mode ? `&mode=${mode}` : ""}`
+      ),
+
+    getDaily: (day, limitCount) =>
+      request<LeaderboardEntry[]>(`/daily?day=${encodeURIComponent(day)}&limit=${limitCount}`),
+
+    checkStatus: async () => {
+      try {
+        await request("/health");
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
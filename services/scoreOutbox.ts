@@ -0,0 +1,117 @@
+// scoreOutbox.ts
+// 점수 제출 대기열 — 실패한 제출을 로컬 기록(syncStatus: "pending")으로 남겨두고
+// 연결되면 지수 백오프로 재시도. runId가 문서 ID라 중복 저장되지 않음
+import { getLeaderboardBackend, isRejection } from "./leaderboardBackend";
+import { subscribeConnectionStatus, reportBackendFailure } from "./connectionStatus";
+import { getPendingRuns, updateLocalRun } from "./localLeaderboard";
+import { parseReplay } from "../engine/replay";
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+let attempts = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let flushAgain = false; // Something was queued while a flush was running
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  const delay = Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+  attempts++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, delay);
+}
+
+// ------------------------------------------------------
+// 📤 대기 중인 기록을 모두 전송 (동시에 한 번만 실행)
+// ------------------------------------------------------
+export function flushOutbox(): Promise<void> {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    const pending = await getPendingRuns();
+    let failed = false;
+
+    for (const run of pending) {
+      try {
+        const backend = await getLeaderboardBackend();
+        await backend.submit({
+          name: run.name,
+          score: run.score,
+          character: run.character,
+          replay: parseReplay(run.replay ?? "") ?? undefined,
+          runId: run.runId,
+          playerId: run.playerId,
+          avatarColor: run.avatarColor,
+          daily: run.daily,
+          mode: run.mode
+        });
+        await updateLocalRun(run.runId, { syncStatus: "synced" });
+        notify();
+      } catch (error) {
+        if (isRejection(error)) {
+          // 이름 규칙 위반 등 — 대기열에서 빼고 이유를 남김
+          await updateLocalRun(run.runId, { syncStatus: "rejected", rejectionReason: error.message });
+          notify();
+          continue;
+        }
+        console.error("Score submission failed, will retry:", error);
+        reportBackendFailure();
+        failed = true;
+        break;
+      }
+    }
+
+    if (failed) {
+      scheduleRetry();
+    } else {
+      attempts = 0;
+    }
+  })().finally(() => {
+    flushing = null;
+    const again = flushAgain && !retryTimer;
+    flushAgain = false;
+    if (again) flushOutbox();
+  });
+
+  return flushing;
+}
+
+// ------------------------------------------------------
+// 📥 제출 예약 — 로컬 기록에 이름을 붙이고 pending으로 표시한 뒤 바로 전송 시도
+// ------------------------------------------------------
+export async function enqueueSubmission(runId: string, name: string): Promise<void> {
+  await updateLocalRun(runId, { name, syncStatus: "pending" });
+  notify();
+  flushOutbox();
+}
+
+// ------------------------------------------------------
+// 🔁 연결 상태가 online이 될 때마다 백오프를 초기화하고 재전송, 변경 시 listener 호출
+// ------------------------------------------------------
+export function startOutbox(onChange: () => void): () => void {
+  listeners.add(onChange);
+
+  const unsubscribe = subscribeConnectionStatus((status) => {
+    if (status !== "online") return;
+    attempts = 0;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    flushOutbox();
+  });
+
+  return () => {
+    listeners.delete(onChange);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,185 @@
+// firestoreRules.test.ts
+// firestore.rules against the local Firestore emulator: entry shape, one write
+// per run, owner-only deletes and verifier-only verification updates.
+//
+//   npm run test:rules   # starts the emulator, runs this file, shuts it down
+import { after, before, beforeEach, describe, it } from "node:test";
+import { readFileSync } from "node:fs";
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment
+} from "@firebase/rules-unit-testing";
+import { deleteDoc, doc, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
+
+const PROJECT_ID = "demo-sparky-tower";
+const ALICE = "alice";
+const BOB = "bob";
+const VERIFIER = "verifier";
+
+let env: RulesTestEnvironment;
+
+const db = (uid: string | null) =>
+  (uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()).firestore();
+
+// What services/firebase.ts writes for a regular run
+const entry = (uid: string, runId: string, overrides: Record<string, unknown> = {}) => ({
+  name: "스파키",
+  score: 1234,
+  character: "YELLOW",
+  seed: 42,
+  replay: "6.16.YELLOW.ENDLESS.14.3c.0p_1f",
+  runId,
+  playerId: "player-1",
+  avatarColor: "#FACC15",
+  uid,
+  periods: { daily: "2025-01-31", weekly: "2025-W05", monthly: "2025-01" },
+  verified: false,
+  rejected: false,
+  verifiedAt: null,
+  timestamp: serverTimestamp(),
+  ...overrides
+});
+
+const without = (data: Record<string, unknown>, key: string) => {
+  const { [key]: _removed, ...rest } = data;
+  return rest;
+};
+
+const dailyEntry = (uid: string, day: string) => ({
+  ...without(entry(uid, "run-daily"), "periods"),
+  day
+});
+
+// Existing entry written around the rules, as if a client had created it earlier
+const seed = (collectionName: string, id: string, data: Record<string, unknown>) =>
+  env.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), collectionName, id), data));
+
+before(async () => {
+  env = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") }
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), "verifiers", VERIFIER), {}));
+});
+
+after(async () => {
+  await env?.cleanup();
+});
+
+describe("creating an entry", () => {
+  it("accepts a well-formed entry on every ranked board", async () => {
+    for (const board of ["globalLeaderboard", "timeAttackLeaderboard", "sprintLeaderboard"]) {
+      await assertSucceeds(setDoc(doc(db(ALICE), board, "run-1"), entry(ALICE, "run-1")));
+    }
+  });
+
+  it("rejects signed-out writes and entries under someone else's uid", async () => {
+    await assertFails(setDoc(doc(db(null), "globalLeaderboard", "run-1"), entry(ALICE, "run-1")));
+    await assertFails(setDoc(doc(db(BOB), "globalLeaderboard", "run-1"), entry(ALICE, "run-1")));
+  });
+
+  it("rejects unknown collections", async () => {
+    await assertFails(setDoc(doc(db(ALICE), "cheatLeaderboard", "run-1"), entry(ALICE, "run-1")));
+  });
+
+  it("enforces the name shape", async () => {
+    const board = "globalLeaderboard";
+    await assertSucceeds(setDoc(doc(db(ALICE), board, "run-1"), entry(ALICE, "run-1", { name: "a" })));
+    await assertSucceeds(setDoc(doc(db(ALICE), board, "run-2"), entry(ALICE, "run-2", { name: "a".repeat(10) })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-3"), entry(ALICE, "run-3", { name: "" })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-4"), entry(ALICE, "run-4", { name: "a".repeat(11) })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-5"), entry(ALICE, "run-5", { name: 42 })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-6"), without(entry(ALICE, "run-6"), "name")));
+  });
+
+  it("enforces the score shape", async () => {
+    const board = "globalLeaderboard";
+    await assertSucceeds(setDoc(doc(db(ALICE), board, "run-1"), entry(ALICE, "run-1", { score: 0 })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-2"), entry(ALICE, "run-2", { score: -1 })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-3"), entry(ALICE, "run-3", { score: 12.5 })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-4"), entry(ALICE, "run-4", { score: "1234" })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-5"), entry(ALICE, "run-5", { score: 10000001 })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-6"), without(entry(ALICE, "run-6"), "score")));
+  });
+
+  it("rejects unknown characters, extra fields and a runId that isn't the document id", async () => {
+    const board = "globalLeaderboard";
+    await assertFails(setDoc(doc(db(ALICE), board, "run-1"), entry(ALICE, "run-1", { character: "RED" })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-2"), entry(ALICE, "run-2", { admin: true })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-3"), entry(ALICE, "other-run")));
+  });
+
+  it("only accepts unverified entries stamped with the server time", async () => {
+    const board = "globalLeaderboard";
+    await assertFails(setDoc(doc(db(ALICE), board, "run-1"), entry(ALICE, "run-1", { verified: true })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-2"), entry(ALICE, "run-2", { rejected: true })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-3"), entry(ALICE, "run-3", { verifiedAt: serverTimestamp() })));
+    await assertFails(setDoc(doc(db(ALICE), board, "run-4"), entry(ALICE, "run-4", { timestamp: new Date(0) })));
+  });
+});
+
+describe("one write per run", () => {
+  it("denies a second write to the same runId, even by the owner", async () => {
+    const ref = doc(db(ALICE), "globalLeaderboard", "run-1");
+    await assertSucceeds(setDoc(ref, entry(ALICE, "run-1")));
+    await assertFails(setDoc(ref, entry(ALICE, "run-1", { score: 999999 })));
+    await assertFails(updateDoc(ref, { score: 999999 }));
+  });
+
+  it("denies taking over another player's runId", async () => {
+    await assertSucceeds(setDoc(doc(db(ALICE), "globalLeaderboard", "run-1"), entry(ALICE, "run-1")));
+    await assertFails(setDoc(doc(db(BOB), "globalLeaderboard", "run-1"), entry(BOB, "run-1")));
+  });
+
+  it("allows one Daily Tower entry per account per day", async () => {
+    const day = "2025-01-31";
+    await assertSucceeds(setDoc(doc(db(ALICE), "dailyLeaderboard", `${day}_${ALICE}`), dailyEntry(ALICE, day)));
+    await assertFails(setDoc(doc(db(ALICE), "dailyLeaderboard", `${day}_${ALICE}`), dailyEntry(ALICE, day)));
+    await assertFails(setDoc(doc(db(ALICE), "dailyLeaderboard", `${day}_${BOB}`), dailyEntry(ALICE, day)));
+  });
+});
+
+describe("deleting an entry", () => {
+  beforeEach(async () => {
+    await seed("globalLeaderboard", "run-1", { ...entry(ALICE, "run-1"), timestamp: new Date() });
+  });
+
+  it("lets the owner delete their own entry", async () => {
+    await assertSucceeds(deleteDoc(doc(db(ALICE), "globalLeaderboard", "run-1")));
+  });
+
+  it("denies deletes by other players and signed-out users", async () => {
+    await assertFails(deleteDoc(doc(db(BOB), "globalLeaderboard", "run-1")));
+    await assertFails(deleteDoc(doc(db(null), "globalLeaderboard", "run-1")));
+  });
+
+  it("never deletes a ranked daily attempt", async () => {
+    const day = "2025-01-31";
+    await seed("dailyLeaderboard", `${day}_${ALICE}`, { ...dailyEntry(ALICE, day), timestamp: new Date() });
+    await assertFails(deleteDoc(doc(db(ALICE), "dailyLeaderboard", `${day}_${ALICE}`)));
+  });
+});
+
+describe("verification", () => {
+  const result = { verified: false, rejected: true, verificationNote: "score_mismatch", verifiedAt: serverTimestamp() };
+
+  beforeEach(async () => {
+    await seed("globalLeaderboard", "run-1", { ...entry(ALICE, "run-1"), timestamp: new Date() });
+  });
+
+  it("lets a verifier write the verification fields only", async () => {
+    await assertSucceeds(updateDoc(doc(db(VERIFIER), "globalLeaderboard", "run-1"), result));
+    await assertFails(updateDoc(doc(db(VERIFIER), "globalLeaderboard", "run-1"), { score: 1 }));
+  });
+
+  it("denies verification updates from players, including the owner", async () => {
+    await assertFails(updateDoc(doc(db(ALICE), "globalLeaderboard", "run-1"), { verified: true, verifiedAt: serverTimestamp() }));
+    await assertFails(updateDoc(doc(db(BOB), "globalLeaderboard", "run-1"), result));
+  });
+});
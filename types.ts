@@ -2,7 +2,9 @@
 export enum GameState {
   START = 'START',
   PLAYING = 'PLAYING',
-  GAME_OVER = 'GAME_OVER'
+  PAUSED = 'PAUSED',
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY'
 }
 
 export enum CharacterType {
@@ -10,11 +12,36 @@ export enum CharacterType {
   BLUE = 'BLUE'
 }
 
+// How a run ends and is ranked (see engine/gameModes.ts)
+export enum GameMode {
+  ENDLESS = 'ENDLESS',
+  TIME_ATTACK = 'TIME_ATTACK',
+  SPRINT = 'SPRINT'
+}
+
+// Local two-player runs on one screen (see engine/party.ts)
+export enum PartyMode {
+  VERSUS = 'VERSUS',
+  COOP = 'COOP'
+}
+
 export enum PowerUpType {
   SHIELD = 'SHIELD',
   SCORE_MULTIPLIER = 'SCORE_MULTIPLIER',
   GIANT = 'GIANT',
-  BOOSTER = 'BOOSTER'
+  BOOSTER = 'BOOSTER',
+  MAGNET = 'MAGNET',
+  SLOW_MO = 'SLOW_MO',
+  SPRING_SHOES = 'SPRING_SHOES'
+}
+
+export enum PlatformKind {
+  NORMAL = 'NORMAL',
+  CRUMBLING = 'CRUMBLING', // Breaks after one bounce
+  VANISHING = 'VANISHING', // Fades in and out on a timer
+  SPRING = 'SPRING',       // Launches higher than a normal bounce
+  VERTICAL = 'VERTICAL',   // Moves up and down
+  SPIKE = 'SPIKE'          // Costs a shield, or the run
 }
 
 export interface Player {
@@ -34,12 +61,13 @@ export interface Player {
 
   // Power-up states
   shieldCount: number;
-  scoreMultiplierActive: boolean;
-  scoreMultiplierEndTime?: number;
-  isGiant: boolean;
-  giantEndTime?: number;
-  isBoosting: boolean;
-  boosterEndTime?: number;
+  springCharges: number; // Boosted landings left from Spring Shoes
+  // Remaining simulation ticks of each active timed power-up
+  powerUpTicks: Partial<Record<PowerUpType, number>>;
+
+  // Per-player run state (matters in local two-player runs)
+  score: number;   // Raw points this player earned while climbing
+  isDown: boolean; // Knocked out: out of a versus run, waiting in a bubble in co-op
 }
 
 export interface Platform {
@@ -53,13 +81,41 @@ export interface Platform {
   moveSpeed?: number;     // Current speed
   initialX?: number;      // Center point of movement
   moveRange?: number;     // How far it moves left/right
+  // Platform kind (NORMAL when left out)
+  kind?: PlatformKind;
+  moveSpeedY?: number;    // Vertical movers: current speed
+  moveRangeY?: number;    // Vertical movers: how far it moves up/down
+  offsetY?: number;       // Vertical movers: distance from its starting height
+  crumbleTicks?: number;  // Crumbling: ticks since it broke (unset while intact)
+  vanishPhase?: number;   // Vanishing: tick offset into the fade cycle
   // Power-up
   powerUp?: PowerUpType;
+  powerUpOffsetX?: number; // Drift from its resting spot (Magnet pull)
+  powerUpOffsetY?: number;
   // Visuals
   color?: string;
   lightColor?: string;
 }
 
+export enum EnemyKind {
+  FLOATER = 'FLOATER', // Hovers in place, bobbing
+  CRITTER = 'CRITTER', // Patrols back and forth along a platform
+  DEBRIS = 'DEBRIS'    // Drops from above once it scrolls into view
+}
+
+export interface Enemy {
+  id: number;
+  kind: EnemyKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vx: number;
+  vy: number;
+  platformId?: number; // Critters: platform they walk on
+  baseY?: number;      // Floaters: height they bob around
+}
+
 export interface Particle {
   x: number;
   y: number;
@@ -76,9 +132,44 @@ export interface Ripple {
   maxRadius: number;
 }
 
+// Sound effects emitted by the engine and synthesized by GameCanvas
+export type GameSound =
+  | 'jump'
+  | 'die'
+  | 'finish'
+  | 'revive'
+  | 'stomp'
+  | 'powerup'
+  | 'shield'
+  | 'collect_shield'
+  | 'collect_star'
+  | 'collect_mushroom'
+  | 'collect_rocket'
+  | 'collect_magnet'
+  | 'collect_slowmo'
+  | 'collect_spring'
+  | 'spring'
+  | 'beep'
+  | 'start';
+
 export interface LeaderboardEntry {
   name: string;
   score: number;
   character: CharacterType;
   timestamp: number;
+  replay?: string;     // Serialized replay of the run
+  verified?: boolean;  // Set once the run has been re-simulated server-side
+  runId?: string;      // Client-generated id shared by the run's local and global copies
+  isLocal?: boolean;   // Only recorded on this device
+  syncStatus?: SyncStatus; // Submission state of this device's runs
+  rejectionReason?: string; // Why the server refused a 'rejected' run
+  height?: number;     // Pixels climbed (local history only)
+  playerId?: string;   // Stable id of the submitting player's profile
+  avatarColor?: string;
+  daily?: string;      // Daily Tower day (YYYY-MM-DD) for ranked daily runs
+  mode?: GameMode;     // Leaderboard category; missing means ENDLESS
 }
+
+// 'pending' while queued in the outbox, 'synced' once the global board has it,
+// 'rejected' when the server refused it for good (e.g. a moderated name)
+export type SyncStatus = 'pending' | 'synced' | 'rejected';